@@ -0,0 +1,160 @@
+// analysis.ts
+// 利きの解析（初心者向けの表示・説明用）。各マスに利いている駒、浮き駒、ピン、王手と逃げ道、
+// 指そうとした手がなぜ指せないか・指すと駒がただで取られないかを Position から求める。
+// 探索には使わないので、速さより Rules と同じ判定であることを優先している。
+
+import { Game, IllegalReason, Move, Piece, PieceType, Player, Position, Rules, Square, opposite } from "./main.js";
+
+// =====================
+// 型
+// =====================
+
+// attackers[p] は p 側でそのマスに利いている駒のマス（そのマスの駒と同じ側なら守り、違えば攻め）
+export type SquareControl = { square: Square; piece?: Piece; attackers: Record<Player, Square[]> };
+
+// 相手に取られる形で、味方の利きがない駒（玉は除く）
+export type HangingPiece = { square: Square; piece: Piece; attackers: Square[] };
+
+// line は玉の隣からピンしている駒までのマス（ピンされた駒はこの上でしか動けない）
+export type Pin = { square: Square; piece: Piece; pinner: Square; line: Square[] };
+
+export type CheckInfo = { king: Square; checkers: Square[]; escapes: Square[] };
+
+export type MoveHazard = {
+    illegal: IllegalReason | null;
+    pinnedBy?: Square; // LEAVES_KING_IN_CHECK のうち、ピンされた駒を動かしたとき
+    hanging: boolean; // 動かした（打った）駒がただで取られる
+    exposed: Square[]; // この手で新しく浮いた味方の駒
+};
+
+const sameSquare = (a: Square, b: Square) => a.file === b.file && a.rank === b.rank;
+
+// =====================
+// 利きの表
+// =====================
+
+export class AttackMap {
+    private readonly cells: SquareControl[] = [];
+
+    constructor(pos: Position) {
+        for (let rank = 1; rank <= 9; rank++) {
+            for (let file = 9; file >= 1; file--) {
+                const square = { file, rank };
+                this.cells.push({ square, piece: pos.board.get(square), attackers: { SENTE: [], GOTE: [] } });
+            }
+        }
+        for (const { square, piece } of pos.board.entries()) {
+            for (const to of Rules.attacksFrom(pos, square)) this.get(to).attackers[piece.owner].push(square);
+        }
+    }
+
+    get(square: Square): SquareControl {
+        return this.cells[(square.rank - 1) * 9 + (9 - square.file)];
+    }
+
+    // 1段目の9筋から順に
+    all(): readonly SquareControl[] {
+        return this.cells;
+    }
+}
+
+// =====================
+// 解析
+// =====================
+
+export class Analysis {
+    static attackMap(pos: Position): AttackMap {
+        return new AttackMap(pos);
+    }
+
+    static hangingPieces(pos: Position, owner?: Player, map: AttackMap = new AttackMap(pos)): HangingPiece[] {
+        const out: HangingPiece[] = [];
+        for (const c of map.all()) {
+            const piece = c.piece;
+            if (!piece || piece.type === PieceType.OU || (owner && piece.owner !== owner)) continue;
+            const attackers = c.attackers[opposite(piece.owner)];
+            if (attackers.length > 0 && c.attackers[piece.owner].length === 0) out.push({ square: c.square, piece, attackers });
+        }
+        return out;
+    }
+
+    // owner を省略すると両方の玉について
+    static pins(pos: Position, owner?: Player): Pin[] {
+        const out: Pin[] = [];
+        for (const side of owner ? [owner] : (["SENTE", "GOTE"] as const)) {
+            const king = findKing(pos, side);
+            if (!king) continue;
+            const before = Rules.attackersOf(pos, king, opposite(side));
+            for (const { square, piece } of pos.board.entries()) {
+                if (piece.owner !== side || piece.type === PieceType.OU || !onLine(king, square)) continue;
+                // その駒を除くと玉に利く相手の駒があればピン
+                const without = pos.clone();
+                without.board.set(square, undefined);
+                const pinner = Rules.attackersOf(without, king, opposite(side)).find((s) => !before.some((b) => sameSquare(b, s)));
+                if (pinner) out.push({ square, piece, pinner, line: between(king, pinner) });
+            }
+        }
+        return out;
+    }
+
+    // 手番側が王手されていなければ null
+    static checks(pos: Position): CheckInfo | null {
+        const king = findKing(pos, pos.turn);
+        if (!king || !Rules.isKingInCheck(pos, pos.turn)) return null;
+        const checkers = Rules.attackersOf(pos, king, opposite(pos.turn));
+        const escapes = Rules.generateLegalMoves(pos)
+            .filter((mv) => mv.kind === "MOVE" && sameSquare(mv.from, king))
+            .map((mv) => mv.to)
+            .filter((to, i, all) => all.findIndex((s) => sameSquare(s, to)) === i);
+        return { king, checkers, escapes };
+    }
+
+    // 手番側が mv を指すとどうなるか（指せない理由・取られる駒）
+    static moveHazard(pos: Position, mv: Move): MoveHazard {
+        const illegal = Rules.validateMove(pos, mv);
+        if (illegal) {
+            const pin = illegal === "LEAVES_KING_IN_CHECK" && mv.kind === "MOVE" ? this.pins(pos, pos.turn).find((p) => sameSquare(p.square, mv.from)) : undefined;
+            return pin ? { illegal, pinnedBy: pin.pinner, hanging: false, exposed: [] } : { illegal, hanging: false, exposed: [] };
+        }
+        const side = pos.turn;
+        const after = Game.applyMove(pos, mv);
+        const hangingBefore = this.hangingPieces(pos, side);
+        const hangingAfter = this.hangingPieces(after, side);
+        return {
+            illegal: null,
+            hanging: hangingAfter.some((h) => sameSquare(h.square, mv.to)),
+            exposed: hangingAfter
+                .filter((h) => !sameSquare(h.square, mv.to) && !hangingBefore.some((b) => sameSquare(b.square, h.square)))
+                .map((h) => h.square),
+        };
+    }
+}
+
+// =====================
+// 補助
+// =====================
+
+function findKing(pos: Position, owner: Player): Square | null {
+    for (const { square, piece } of pos.board.entries()) {
+        if (piece.owner === owner && piece.type === PieceType.OU) return square;
+    }
+    return null;
+}
+
+// 縦・横・斜めの同じ線上にあるか
+function onLine(a: Square, b: Square): boolean {
+    const df = b.file - a.file;
+    const dr = b.rank - a.rank;
+    return df === 0 || dr === 0 || Math.abs(df) === Math.abs(dr);
+}
+
+// from の隣から to まで（to を含む）
+function between(from: Square, to: Square): Square[] {
+    const df = Math.sign(to.file - from.file);
+    const dr = Math.sign(to.rank - from.rank);
+    const out: Square[] = [];
+    for (let s = { file: from.file + df, rank: from.rank + dr }; ; s = { file: s.file + df, rank: s.rank + dr }) {
+        out.push(s);
+        if (sameSquare(s, to)) return out;
+    }
+}
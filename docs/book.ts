@@ -0,0 +1,189 @@
+// book.ts
+// 定跡。棋譜の本譜を局面ごとに数え、局面のハッシュ（盤・持ち駒・手番の Zobrist）で指し手と勝敗を引く。
+// ファイルは serialize / deserialize の小さなバイナリで、ブラウザでもエンジンでも同じものを読む。
+
+import { Game, GameResult, Move, Player, Position, Rules, opposite } from "./main.js";
+import { FastPosition } from "./fastpos.js";
+
+// =====================
+// 型
+// =====================
+
+// 勝敗は先手・後手のどちらが勝ったか（結果のない棋譜は count にだけ入る）
+export type BookStats = { count: number; senteWins: number; goteWins: number; draws: number };
+
+// weight はその局面の定跡手の中での割合（count の比）
+export type BookMove = BookStats & { move: Move; weight: number };
+
+export type BookOptions = {
+    maxPly?: number; // 各棋譜の何手目までを入れるか
+    minCount?: number; // これより少ない手は捨てる
+};
+
+const DEFAULT_MAX_PLY = 40;
+const MAGIC = "SBK1";
+
+// move は FastPosition.encodeMove の値
+type Entry = BookStats & { move: number };
+
+// =====================
+// 定跡
+// =====================
+
+export class OpeningBook {
+    // FastPosition.key() -> その局面で指された手
+    private readonly positions = new Map<string, Entry[]>();
+
+    static build(games: Iterable<Game>, options: BookOptions = {}): OpeningBook {
+        const book = new OpeningBook();
+        for (const game of games) book.add(game, options.maxPly);
+        book.prune(options.minCount ?? 1);
+        return book;
+    }
+
+    static hash(pos: Position): string {
+        return FastPosition.fromPosition(pos).key();
+    }
+
+    positionCount(): number {
+        return this.positions.size;
+    }
+
+    // 本譜の先頭 maxPly 手を数える
+    add(game: Game, maxPly: number = DEFAULT_MAX_PLY): void {
+        const line = game.getMainLine();
+        const last = line.length > 0 ? line[line.length - 1] : game.getRoot();
+        const winner = winnerOf(last.result);
+        for (const node of line.slice(0, maxPly)) {
+            const key = OpeningBook.hash(node.parent!.position);
+            const move = FastPosition.encodeMove(node.move!);
+            let entries = this.positions.get(key);
+            if (!entries) {
+                entries = [];
+                this.positions.set(key, entries);
+            }
+            let e = entries.find((x) => x.move === move);
+            if (!e) {
+                e = { move, count: 0, senteWins: 0, goteWins: 0, draws: 0 };
+                entries.push(e);
+            }
+            e.count++;
+            if (winner === "SENTE") e.senteWins++;
+            else if (winner === "GOTE") e.goteWins++;
+            else if (winner === "DRAW") e.draws++;
+        }
+    }
+
+    // count が minCount 未満の手と、手のなくなった局面を消す
+    prune(minCount: number): void {
+        for (const [key, entries] of this.positions) {
+            const kept = entries.filter((e) => e.count >= minCount);
+            if (kept.length === 0) this.positions.delete(key);
+            else this.positions.set(key, kept);
+        }
+    }
+
+    // 多く指された順。ハッシュの衝突に備えて合法手だけ返す
+    lookup(pos: Position): BookMove[] {
+        const entries = this.positions.get(OpeningBook.hash(pos)) ?? [];
+        const moves = entries
+            .map((e) => ({ ...e, move: FastPosition.decodeMove(e.move) }))
+            .filter((e) => Rules.isLegal(pos, e.move));
+        const total = moves.reduce((n, e) => n + e.count, 0);
+        return moves
+            .map(({ move, count, senteWins, goteWins, draws }) => ({ move, count, senteWins, goteWins, draws, weight: count / total }))
+            .sort((a, b) => b.count - a.count);
+    }
+
+    // 回数に比例した確率で1手選ぶ（定跡になければ null）
+    pick(pos: Position, random: () => number = Math.random): Move | null {
+        const moves = this.lookup(pos);
+        let r = random();
+        for (const m of moves) {
+            r -= m.weight;
+            if (r < 0) return m.move;
+        }
+        return moves.length > 0 ? moves[moves.length - 1].move : null;
+    }
+
+    // -------- ファイル --------
+
+    // "SBK1", 局面数, 局面ごとに [ハッシュ 8 バイト, 手数, 手ごとに [手, 回数, 先手勝, 後手勝, 引分]]（数は可変長）
+    serialize(): Uint8Array {
+        const out: number[] = [];
+        for (const c of MAGIC) out.push(c.charCodeAt(0));
+        writeVarint(out, this.positions.size);
+        for (const [key, entries] of this.positions) {
+            for (let i = 0; i < 16; i += 2) out.push(parseInt(key.slice(i, i + 2), 16));
+            writeVarint(out, entries.length);
+            for (const e of entries) {
+                for (const n of [e.move, e.count, e.senteWins, e.goteWins, e.draws]) writeVarint(out, n);
+            }
+        }
+        return Uint8Array.from(out);
+    }
+
+    static deserialize(bytes: Uint8Array): OpeningBook {
+        if (bytes.length < 4 || String.fromCharCode(...bytes.subarray(0, 4)) !== MAGIC) throw new Error("BOOK: not a book file");
+        const book = new OpeningBook();
+        const reader = { bytes, offset: 4 };
+        const positions = readVarint(reader);
+        for (let i = 0; i < positions; i++) {
+            if (reader.offset + 8 > bytes.length) throw new Error("BOOK: truncated file");
+            let key = "";
+            for (let j = 0; j < 8; j++) key += bytes[reader.offset++].toString(16).padStart(2, "0");
+            const n = readVarint(reader);
+            const entries: Entry[] = [];
+            for (let j = 0; j < n; j++) {
+                const [move, count, senteWins, goteWins, draws] = [0, 0, 0, 0, 0].map(() => readVarint(reader));
+                entries.push({ move, count, senteWins, goteWins, draws });
+            }
+            book.positions.set(key, entries);
+        }
+        return book;
+    }
+}
+
+// =====================
+// 補助
+// =====================
+
+function winnerOf(result: GameResult): Player | "DRAW" | null {
+    switch (result.kind) {
+        case "RESIGN":
+        case "CHECKMATE":
+        case "DECLARATION_WIN":
+            return result.winner;
+        case "ILLEGAL_MOVE":
+        case "PERPETUAL_CHECK":
+        case "DECLARATION_FAIL":
+        case "TIME_LOSS":
+            return opposite(result.loser);
+        case "DRAW_REPETITION":
+        case "DRAW_IMPASSE":
+        case "DRAW_AGREEMENT":
+            return "DRAW";
+        case "ONGOING":
+            return null;
+    }
+}
+
+function writeVarint(out: number[], n: number): void {
+    while (n >= 0x80) {
+        out.push((n & 0x7f) | 0x80);
+        n = Math.floor(n / 128);
+    }
+    out.push(n);
+}
+
+function readVarint(r: { bytes: Uint8Array; offset: number }): number {
+    let n = 0;
+    let scale = 1;
+    for (;;) {
+        if (r.offset >= r.bytes.length) throw new Error("BOOK: truncated file");
+        const b = r.bytes[r.offset++];
+        n += (b & 0x7f) * scale;
+        if (b < 0x80) return n;
+        scale *= 128;
+    }
+}
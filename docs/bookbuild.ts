@@ -0,0 +1,95 @@
+// bookbuild.ts
+// 棋譜のディレクトリから定跡ファイルを作る。
+// `node bookbuild.js <棋譜のディレクトリ> <出力ファイル> [--depth 手数] [--min-count 回数]`
+// KIF / KI2 / CSA を下のディレクトリまで読み、Shift_JIS の .kif / .ki2 もそのまま読める。
+
+import { readFile, readdir, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { Game } from "./main.js";
+import { BookOptions, OpeningBook } from "./book.js";
+import { Csa } from "./csa.js";
+import { Kif } from "./kif.js";
+
+const RECORD_EXTENSIONS = [".kif", ".kifu", ".ki2", ".ki2u", ".csa"];
+
+export type BookBuildResult = {
+    book: OpeningBook;
+    games: number;
+    // 読めなかった棋譜とその理由
+    skipped: Array<{ file: string; error: string }>;
+};
+
+// dir の下の棋譜をすべて Game に読み込んで数える
+export async function buildBookFromDirectory(dir: string, options: BookOptions = {}): Promise<BookBuildResult> {
+    const book = new OpeningBook();
+    const skipped: BookBuildResult["skipped"] = [];
+    let games = 0;
+    for (const file of await listRecords(dir)) {
+        try {
+            book.add(parseRecord(file, await readFile(file)), options.maxPly);
+            games++;
+        } catch (e) {
+            skipped.push({ file, error: e instanceof Error ? e.message : String(e) });
+        }
+    }
+    book.prune(options.minCount ?? 1);
+    return { book, games, skipped };
+}
+
+async function listRecords(dir: string): Promise<string[]> {
+    const out: string[] = [];
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+        const path = join(dir, entry.name);
+        if (entry.isDirectory()) out.push(...(await listRecords(path)));
+        else if (RECORD_EXTENSIONS.includes(extname(entry.name).toLowerCase())) out.push(path);
+    }
+    return out.sort();
+}
+
+function parseRecord(file: string, bytes: Uint8Array): Game {
+    const ext = extname(file).toLowerCase();
+    const text = decode(bytes);
+    return ext === ".csa" ? Csa.parse(text).game : Kif.parse(text).game;
+}
+
+// UTF-8 として読めなければ Shift_JIS（.kif / .ki2 の従来の文字コード）
+function decode(bytes: Uint8Array): string {
+    try {
+        return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+        return new TextDecoder("shift_jis").decode(bytes);
+    }
+}
+
+function parseArgs(args: string[]): { dir: string; out: string; options: BookOptions } {
+    const positional: string[] = [];
+    const options: BookOptions = {};
+    for (let i = 0; i < args.length; i++) {
+        const value = () => {
+            const n = Number(args[++i]);
+            if (!Number.isInteger(n) || n < 1) throw new Error(`BOOK: ${args[i - 1]} needs a positive integer`);
+            return n;
+        };
+        if (args[i] === "--depth") options.maxPly = value();
+        else if (args[i] === "--min-count") options.minCount = value();
+        else positional.push(args[i]);
+    }
+    if (positional.length !== 2) throw new Error("usage: node bookbuild.js <dir> <out> [--depth N] [--min-count N]");
+    return { dir: positional[0], out: positional[1], options };
+}
+
+async function main(args: string[]): Promise<void> {
+    const { dir, out, options } = parseArgs(args);
+    const { book, games, skipped } = await buildBookFromDirectory(dir, options);
+    await writeFile(out, book.serialize());
+    for (const s of skipped) process.stderr.write(`skipped ${s.file}: ${s.error}\n`);
+    process.stdout.write(`${games} games, ${book.positionCount()} positions -> ${out}\n`);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    main(process.argv.slice(2)).catch((e) => {
+        process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,348 @@
+// controller.ts
+// 盤面 UI の状態（駒の選択・合法手・成り不成の確認・棋譜の表示位置・状態の文言）。
+// DOM には触らないので、画面なしで動かせる。描画は index.html 側で行う。
+
+import {
+    Game,
+    GameResult,
+    Handicap,
+    ILLEGAL_REASON_LABELS,
+    IllegalReason,
+    InitialSetup,
+    KifuNode,
+    Move,
+    Piece,
+    PieceType,
+    Player,
+    Position,
+    PositionProblem,
+    Rules,
+    Square,
+} from "./main.js";
+import { Kif } from "./kif.js";
+import { Sfen } from "./sfen.js";
+
+// =====================
+// 型
+// =====================
+
+export type ClickResult =
+    | { kind: "NONE" } // 選択を解除した・何もしなかった
+    | { kind: "SELECTED" } // 駒（持ち駒）を選んだ
+    | { kind: "PROMOTION_CHOICE"; promote: Move; stay: Move } // choosePromotion で決める
+    | { kind: "MOVED"; move: Move; captured?: Piece }
+    | { kind: "SUBMITTED"; move: Move } // submitMove に渡した（通信対局）
+    | { kind: "REJECTED"; message: string }; // 文字で入力した手が読めない・指せない
+
+const USI_MOVE_RE = /^(?:[1-9][a-i][1-9][a-i]\+?|[PLNSGBR]\*[1-9][a-i])$/;
+
+export type MoveListEntry = { ply: number; text: string };
+
+const PIECE_NAMES: Record<PieceType, { base: string; promoted: string }> = {
+    [PieceType.FU]: { base: "歩", promoted: "と" },
+    [PieceType.KY]: { base: "香", promoted: "成香" },
+    [PieceType.KE]: { base: "桂", promoted: "成桂" },
+    [PieceType.GI]: { base: "銀", promoted: "成銀" },
+    [PieceType.KI]: { base: "金", promoted: "金" },
+    [PieceType.KA]: { base: "角", promoted: "馬" },
+    [PieceType.HI]: { base: "飛", promoted: "龍" },
+    [PieceType.OU]: { base: "玉", promoted: "玉" },
+};
+
+export function pieceName(p: Piece): string {
+    return p.promoted ? PIECE_NAMES[p.type].promoted : PIECE_NAMES[p.type].base;
+}
+
+export function describePositionProblem(p: PositionProblem): string {
+    const side = (o: Player) => (o === "SENTE" ? "先手" : "後手");
+    const at = (s: Square) => `${s.file}${s.rank}`;
+    switch (p.kind) {
+        case "NO_KING":
+            return `${side(p.owner)}の玉がありません`;
+        case "DUPLICATE_KING":
+            return `${side(p.owner)}の玉が2枚以上あります`;
+        case "KING_IN_HAND":
+            return `${side(p.owner)}の持ち駒に玉があります`;
+        case "TOO_MANY_PIECES":
+            return `${PIECE_NAMES[p.pieceType].base}が${p.count}枚あります（最大${p.max}枚）`;
+        case "NIFU":
+            return `二歩です（${side(p.owner)}の${p.file}筋）`;
+        case "DEAD_PIECE":
+            return `行き所のない駒があります（${at(p.square)}）`;
+        case "INVALID_PROMOTION":
+            return `成れない駒が成っています（${at(p.square)}）`;
+        case "OPPONENT_IN_CHECK":
+            return "手番でない側の玉に王手がかかっています";
+    }
+}
+
+// =====================
+// コントローラ
+// =====================
+
+export class GameController {
+    selectedSquare: Square | null = null;
+    selectedDrop: PieceType | null = null;
+    pendingPromotion: { promote: Move; stay: Move } | null = null;
+    // 棋譜の表示位置（null なら最新の局面で、そのまま指せる）
+    viewPly: number | null = null;
+    // 盤で指せる側。通信対局では自分の席だけ（観戦なら空）
+    playableSides: readonly Player[] = ["SENTE", "GOTE"];
+    // 指し手を Game に指さずに渡す先（通信対局ではサーバーへ送り、返ってきてから Game に指す）
+    submitMove: ((mv: Move) => void) | null = null;
+
+    private legalFor: KifuNode | null = null;
+    private legal: Move[] = [];
+    // 節点ごとの棋譜の文字（局面と手は変わらないので一度だけ作る）
+    private readonly moveTexts = new WeakMap<KifuNode, string>();
+
+    constructor(private game: Game) { }
+
+    getGame(): Game {
+        return this.game;
+    }
+
+    // 対局を差し替える（新規対局・棋譜の読み込み）
+    setGame(game: Game, viewPly: number | null = null): void {
+        this.game = game;
+        this.legalFor = null;
+        this.viewPly = viewPly;
+        this.clearSelection();
+    }
+
+    clearSelection(): void {
+        this.selectedSquare = null;
+        this.selectedDrop = null;
+        this.pendingPromotion = null;
+    }
+
+    // -------- 局面 --------
+
+    // 現在の手順を開始局面から順に（[0] が開始局面）。変化に入っていればその変化の手順
+    line(): KifuNode[] {
+        return [this.game.getRoot(), ...this.game.getLineNodes()];
+    }
+
+    shownPly(): number {
+        return this.viewPly ?? this.game.getCurrentNode().ply;
+    }
+
+    shownNode(): KifuNode {
+        return this.viewPly === null ? this.game.getCurrentNode() : this.line()[this.viewPly];
+    }
+
+    shownPosition(): Position {
+        return this.shownNode().position;
+    }
+
+    canPlay(): boolean {
+        if (!this.playableSides.includes(this.game.pos.turn)) return false;
+        return this.viewPly === null && this.game.checkTime().kind === "ONGOING";
+    }
+
+    legalMoves(): Move[] {
+        if (!this.canPlay()) return [];
+        const node = this.game.getCurrentNode();
+        if (this.legalFor !== node) {
+            this.legal = Rules.generateLegalMoves(this.game.pos);
+            this.legalFor = node;
+        }
+        return this.legal;
+    }
+
+    // 選択中の駒（持ち駒）の移動先
+    legalTargets(): Square[] {
+        const out: Square[] = [];
+        for (const mv of this.legalMoves()) {
+            if (mv.kind === "MOVE" ? !this.isSelectedFrom(mv.from) : mv.pieceType !== this.selectedDrop) continue;
+            if (!out.some((s) => s.file === mv.to.file && s.rank === mv.to.rank)) out.push(mv.to);
+        }
+        return out;
+    }
+
+    // 表示中の局面に至った手（開始局面なら null）
+    lastMove(): Move | null {
+        return this.shownNode().move;
+    }
+
+    // -------- 入力 --------
+
+    clickSquare(sq: Square): ClickResult {
+        if (!this.canPlay()) return { kind: "NONE" };
+        const pos = this.game.pos;
+        const same = (mv: Move) => mv.to.file === sq.file && mv.to.rank === sq.rank;
+
+        if (this.selectedDrop) {
+            const mv = this.legalMoves().find((m) => m.kind === "DROP" && m.pieceType === this.selectedDrop && same(m));
+            if (mv) return this.play(mv);
+        }
+        if (this.selectedSquare) {
+            const moves = this.legalMoves().filter((m) => m.kind === "MOVE" && this.isSelectedFrom(m.from) && same(m));
+            if (moves.length === 2) {
+                const promote = moves.find((m) => m.kind === "MOVE" && m.promote)!;
+                const stay = moves.find((m) => m.kind === "MOVE" && !m.promote)!;
+                this.pendingPromotion = { promote, stay };
+                return { kind: "PROMOTION_CHOICE", promote, stay };
+            }
+            if (moves.length === 1) return this.play(moves[0]);
+        }
+
+        const piece = pos.board.get(sq);
+        this.clearSelection();
+        if (piece && piece.owner === pos.turn) {
+            this.selectedSquare = sq;
+            return { kind: "SELECTED" };
+        }
+        return { kind: "NONE" };
+    }
+
+    // 手番側の持ち駒を選ぶ（もう一度選ぶと解除）
+    clickHand(owner: Player, type: PieceType): ClickResult {
+        const pos = this.game.pos;
+        if (!this.canPlay() || owner !== pos.turn || pos.hand.get(owner, type) === 0) return { kind: "NONE" };
+        const again = this.selectedDrop === type;
+        this.clearSelection();
+        if (again) return { kind: "NONE" };
+        this.selectedDrop = type;
+        return { kind: "SELECTED" };
+    }
+
+    choosePromotion(promote: boolean): ClickResult {
+        const pending = this.pendingPromotion;
+        if (!pending) return { kind: "NONE" };
+        return this.play(promote ? pending.promote : pending.stay);
+    }
+
+    // 盤のクリック以外（定跡の一覧など）から指す。指せない手なら何もしない
+    playMove(mv: Move): ClickResult {
+        if (!this.legalMoves().some((m) => Rules.sameMove(m, mv))) return { kind: "NONE" };
+        return this.play(mv);
+    }
+
+    // 文字で入力した手（"76歩" "同歩成" "７六歩(77)" "7g7f"）。成・不成を書かずに両方指せるなら PROMOTION_CHOICE
+    enterMove(text: string): ClickResult {
+        if (!this.canPlay()) return { kind: "REJECTED", message: "今は指せません" };
+        const s = text.trim();
+        let moves: Move[];
+        try {
+            moves = USI_MOVE_RE.test(s) ? [Sfen.parseMove(s)] : Kif.resolveMoveText(this.game.pos, s, this.lastMove()?.to);
+        } catch {
+            return { kind: "REJECTED", message: `「${s}」は指し手として読めません` };
+        }
+        this.clearSelection();
+        const legal = moves.filter((mv) => this.legalMoves().some((m) => Rules.sameMove(m, mv)));
+        if (legal.length === 0) {
+            const reason = moves.length === 1 ? Rules.validateMove(this.game.pos, moves[0]) : null;
+            return { kind: "REJECTED", message: reason ? `指せない手です（${ILLEGAL_REASON_LABELS[reason]}）` : `「${s}」に当たる手がありません` };
+        }
+        const boardMoves = legal.filter((m): m is Extract<Move, { kind: "MOVE" }> => m.kind === "MOVE");
+        const promote = boardMoves.find((m) => m.promote);
+        const stay = boardMoves.find((m) => !m.promote);
+        if (legal.length === 2 && promote && stay && Rules.sameMove({ ...promote, promote: false }, stay)) {
+            this.selectedSquare = promote.from;
+            this.pendingPromotion = { promote, stay };
+            return { kind: "PROMOTION_CHOICE", promote, stay };
+        }
+        if (legal.length > 1) return { kind: "REJECTED", message: `「${s}」に当たる手が${legal.length}つあります（右・左・上・引・寄・直で区別してください）` };
+        return this.play(legal[0]);
+    }
+
+    // -------- 棋譜 --------
+
+    moveList(): MoveListEntry[] {
+        return this.line().slice(1).map((node) => ({ ply: node.ply, text: this.moveText(node) }));
+    }
+
+    private moveText(node: KifuNode): string {
+        let text = this.moveTexts.get(node);
+        if (text === undefined) {
+            const parent = node.parent!;
+            const mark = parent.position.turn === "SENTE" ? "▲" : "△";
+            text = mark + Kif.formatKi2Move(parent.position, node.move!, parent.move?.to);
+            this.moveTexts.set(node, text);
+        }
+        return text;
+    }
+
+    // 現在の手順の ply 手目を表示する。最後の手なら対局の局面に戻る。1手進めたときは取った駒を返す
+    goToPly(ply: number): Piece | undefined {
+        const line = this.line();
+        const last = line.length - 1;
+        const target = Math.max(0, Math.min(last, ply));
+        const from = this.shownPly();
+        this.viewPly = target === last && this.game.getCurrentNode() === line[last] ? null : target;
+        this.clearSelection();
+        return target === from + 1 ? this.capturedAt(line[target]) : undefined;
+    }
+
+    // -------- 状態の文言 --------
+
+    // 駒落ちでは 下手 / 上手 と呼ぶ
+    playerLabel(p: Player): string {
+        const h = InitialSetup.detectHandicap(this.game.getInitialPosition());
+        if (h !== undefined && h !== Handicap.HIRATE) return p === "SENTE" ? "下手" : "上手";
+        return p === "SENTE" ? "先手" : "後手";
+    }
+
+    statusText(): string {
+        if (this.viewPly !== null) return `${this.viewPly}手目の局面です。最後の手まで進めると続きを指せます。`;
+        const result = this.game.checkTime();
+        if (result.kind !== "ONGOING") return this.resultText(result);
+        const pos = this.game.pos;
+        let text = `${this.playerLabel(pos.turn)}の手番です。`;
+        if (this.game.getCurrentNode().inCheck) text += " 王手されています。";
+        return text;
+    }
+
+    private resultText(result: GameResult): string {
+        switch (result.kind) {
+            case "RESIGN":
+                return `投了しました。勝者: ${this.playerLabel(result.winner)}`;
+            case "CHECKMATE":
+                return `詰みです。勝者: ${this.playerLabel(result.winner)}`;
+            case "ILLEGAL_MOVE":
+                return `反則負け: ${this.playerLabel(result.loser)}${result.reason ? ` (${ILLEGAL_REASON_LABELS[result.reason]})` : ""}`;
+            case "DRAW_REPETITION":
+                return "千日手です。";
+            case "PERPETUAL_CHECK":
+                return `連続王手の千日手: ${this.playerLabel(result.loser)}の負け`;
+            case "DECLARATION_WIN":
+                return `入玉宣言勝ち: ${this.playerLabel(result.winner)}`;
+            case "DECLARATION_FAIL":
+                return `入玉宣言の失敗: ${this.playerLabel(result.loser)}の負け`;
+            case "DRAW_IMPASSE":
+                return "持将棋です。";
+            case "DRAW_AGREEMENT":
+                return "合意により引き分けです。";
+            case "TIME_LOSS":
+                return `時間切れ: ${this.playerLabel(result.loser)}の負け`;
+            case "ONGOING":
+                return "";
+        }
+    }
+
+    // -------- 内部 --------
+
+    private play(mv: Move): ClickResult {
+        if (this.submitMove) {
+            this.clearSelection();
+            this.submitMove(mv);
+            return { kind: "SUBMITTED", move: mv };
+        }
+        const captured = mv.kind === "MOVE" ? this.game.pos.board.get(mv.to) : undefined;
+        // move イベントで描き直すときには選択が外れているように、指す前に消す
+        this.clearSelection();
+        // 指す直前に時間が切れていれば指されない（結果は result イベントで伝わる）
+        if (this.game.play(mv) !== null) return { kind: "NONE" };
+        return captured ? { kind: "MOVED", move: mv, captured } : { kind: "MOVED", move: mv };
+    }
+
+    private capturedAt(node: KifuNode): Piece | undefined {
+        const mv = node.move;
+        return mv && mv.kind === "MOVE" ? node.parent!.position.board.get(mv.to) : undefined;
+    }
+
+    private isSelectedFrom(s: Square): boolean {
+        return !!this.selectedSquare && this.selectedSquare.file === s.file && this.selectedSquare.rank === s.rank;
+    }
+}
@@ -0,0 +1,431 @@
+// csa.ts
+
+import { Board, Game, GameResult, Hand, InitialSetup, Move, Piece, PieceType, Player, Position, Rules, opposite } from "./main.js";
+
+// =====================
+// 駒の2文字コード
+// =====================
+
+const CODE_TO_PIECE: Record<string, { type: PieceType; promoted: boolean }> = {
+    FU: { type: PieceType.FU, promoted: false },
+    KY: { type: PieceType.KY, promoted: false },
+    KE: { type: PieceType.KE, promoted: false },
+    GI: { type: PieceType.GI, promoted: false },
+    KI: { type: PieceType.KI, promoted: false },
+    KA: { type: PieceType.KA, promoted: false },
+    HI: { type: PieceType.HI, promoted: false },
+    OU: { type: PieceType.OU, promoted: false },
+    TO: { type: PieceType.FU, promoted: true },
+    NY: { type: PieceType.KY, promoted: true },
+    NK: { type: PieceType.KE, promoted: true },
+    NG: { type: PieceType.GI, promoted: true },
+    UM: { type: PieceType.KA, promoted: true },
+    RY: { type: PieceType.HI, promoted: true },
+};
+
+const PROMOTED_CODES: Partial<Record<PieceType, string>> = {
+    [PieceType.FU]: "TO",
+    [PieceType.KY]: "NY",
+    [PieceType.KE]: "NK",
+    [PieceType.GI]: "NG",
+    [PieceType.KA]: "UM",
+    [PieceType.HI]: "RY",
+};
+
+const HAND_ORDER: PieceType[] = [
+    PieceType.HI,
+    PieceType.KA,
+    PieceType.KI,
+    PieceType.GI,
+    PieceType.KE,
+    PieceType.KY,
+    PieceType.FU,
+];
+
+// 駒1セット（"00AL" で残り全部を持ち駒にするときに使う）
+const FULL_SET: Record<PieceType, number> = {
+    [PieceType.FU]: 18,
+    [PieceType.KY]: 4,
+    [PieceType.KE]: 4,
+    [PieceType.GI]: 4,
+    [PieceType.KI]: 4,
+    [PieceType.KA]: 2,
+    [PieceType.HI]: 2,
+    [PieceType.OU]: 2,
+};
+
+export type CsaRecord = {
+    game: Game;
+    // "N+", "N-" と "$EVENT" などの "$" 行（キーは "$" を除く）
+    headers: Record<string, string>;
+    // times[i] は i 手目の消費時間（秒）。T 行がなければ undefined
+    times: Array<number | undefined>;
+    // GameResult に対応しない終局（%CHUDAN など）はここに残す
+    special?: string;
+};
+
+// =====================
+// CSA 形式
+// =====================
+
+export class Csa {
+    // -------- 書き出し --------
+
+    // times を省略すると、各手の消費時間（KifuNode.consumedMs、秒未満切り捨て）を T 行に書く
+    static export(game: Game, headers: Record<string, string> = {}, times?: Array<number | undefined>): string {
+        const lines: string[] = ["V2.2"];
+        for (const [k, v] of Object.entries(headers)) {
+            lines.push(k === "N+" || k === "N-" ? `${k}${v}` : `$${k}:${v}`);
+        }
+        lines.push(...this.formatPosition(game.getInitialPosition()));
+
+        // CSA には変化がないので本譜だけを書く
+        const main = game.getMainLine();
+        main.forEach((node, i) => {
+            lines.push(this.formatMove(node.parent!.position, node.move!));
+            const t = times ? times[i] : node.consumedMs === undefined ? undefined : Math.floor(node.consumedMs / 1000);
+            if (t !== undefined) lines.push(`T${t}`);
+        });
+
+        const last = main[main.length - 1] ?? game.getRoot();
+        const special = this.specialFor(last.result, last.position.turn);
+        if (special) lines.push(special);
+        return lines.join("\n") + "\n";
+    }
+
+    static formatPosition(pos: Position): string[] {
+        const lines: string[] = [];
+        const deletions = this.deletionsFromStandard(pos);
+        if (deletions !== undefined) {
+            lines.push("PI" + deletions.map((d) => `${d.file}${d.rank}${this.pieceCode(d.piece)}`).join(""));
+        } else {
+            for (let rank = 1; rank <= 9; rank++) {
+                let row = `P${rank}`;
+                for (let file = 9; file >= 1; file--) {
+                    const p = pos.board.get({ file, rank });
+                    row += p ? (p.owner === "SENTE" ? "+" : "-") + this.pieceCode(p) : " * ";
+                }
+                lines.push(row);
+            }
+            for (const owner of ["SENTE", "GOTE"] as const) {
+                let row = "";
+                for (const t of HAND_ORDER) {
+                    row += `00${this.pieceCode(new Piece(owner, t))}`.repeat(pos.hand.get(owner, t));
+                }
+                if (row !== "") lines.push((owner === "SENTE" ? "P+" : "P-") + row);
+            }
+        }
+        lines.push(pos.turn === "SENTE" ? "+" : "-");
+        return lines;
+    }
+
+    // "+7776FU" / "-0055KA"（駒コードは移動後の駒）
+    static formatMove(pos: Position, mv: Move): string {
+        const sign = pos.turn === "SENTE" ? "+" : "-";
+        if (mv.kind === "DROP") {
+            return `${sign}00${mv.to.file}${mv.to.rank}${this.pieceCode(new Piece(pos.turn, mv.pieceType))}`;
+        }
+        const p = pos.board.get(mv.from);
+        if (!p) throw new Error("CSA: move from empty square");
+        const moved = mv.promote ? p.promote() : p;
+        return `${sign}${mv.from.file}${mv.from.rank}${mv.to.file}${mv.to.rank}${this.pieceCode(moved)}`;
+    }
+
+    private static pieceCode(p: Piece): string {
+        if (p.promoted) return PROMOTED_CODES[p.type] ?? p.type;
+        return p.type;
+    }
+
+    // 負けた側を書けない特殊な手（%SENNICHITE・%KACHI・%TIME_UP）は使わず、%+ILLEGAL_ACTION などで負けた側を残す
+    private static specialFor(result: GameResult, turn: Player): string | undefined {
+        const illegalAction = (loser: Player) => `%${loser === "SENTE" ? "+" : "-"}ILLEGAL_ACTION`;
+        switch (result.kind) {
+            case "RESIGN":
+                return "%TORYO";
+            case "CHECKMATE":
+                return "%TSUMI";
+            case "ILLEGAL_MOVE":
+                return result.loser === turn ? "%ILLEGAL_MOVE" : illegalAction(result.loser);
+            case "DRAW_REPETITION":
+                return "%SENNICHITE";
+            case "PERPETUAL_CHECK":
+            case "DECLARATION_FAIL":
+                return illegalAction(result.loser);
+            case "DECLARATION_WIN":
+                return "%KACHI";
+            case "DRAW_IMPASSE":
+                return "%JISHOGI";
+            case "DRAW_AGREEMENT":
+                return "%HIKIWAKE";
+            case "TIME_LOSS":
+                // %TIME_UP は手番側の時間切れ
+                return result.loser === turn ? "%TIME_UP" : illegalAction(result.loser);
+            default:
+                return undefined;
+        }
+    }
+
+    // 平手から駒を取り除いただけの局面なら、その取り除いた駒（PI 行で表せる）
+    private static deletionsFromStandard(
+        pos: Position
+    ): Array<{ file: number; rank: number; piece: Piece }> | undefined {
+        for (const t of HAND_ORDER) {
+            if (pos.hand.get("SENTE", t) > 0 || pos.hand.get("GOTE", t) > 0) return undefined;
+        }
+        const standard = InitialSetup.standard().board;
+        const out: Array<{ file: number; rank: number; piece: Piece }> = [];
+        for (let file = 1; file <= 9; file++) {
+            for (let rank = 1; rank <= 9; rank++) {
+                const a = standard.get({ file, rank });
+                const b = pos.board.get({ file, rank });
+                if (!b) {
+                    if (a) out.push({ file, rank, piece: a });
+                    continue;
+                }
+                if (!a || a.owner !== b.owner || a.type !== b.type || a.promoted !== b.promoted) return undefined;
+            }
+        }
+        return out;
+    }
+
+    // -------- 読み込み --------
+
+    static parse(text: string): CsaRecord {
+        const headers: Record<string, string> = {};
+        const times: Array<number | undefined> = [];
+        let special: string | undefined;
+
+        let board: Board | undefined;
+        const hand = new Hand();
+        let turn: Player | undefined;
+        let game: Game | undefined;
+
+        // 1行に "," 区切りで複数の文を書ける
+        const statements: Array<{ text: string; lineNo: number }> = [];
+        text.replace(/^\uFEFF/, "")
+            .split(/\r?\n/)
+            .forEach((line, i) => {
+                if (line.startsWith("'")) return;
+                for (const part of line.split(",")) {
+                    const t = part.trimEnd();
+                    if (t !== "") statements.push({ text: t, lineNo: i + 1 });
+                }
+            });
+
+        const fail = (lineNo: number, msg: string): never => {
+            throw new Error(`CSA line ${lineNo}: ${msg}`);
+        };
+        // 開始局面は詰将棋（攻め方の玉なし）も受け付ける
+        const start = (lineNo: number): Game => {
+            const pos = new Position(board!, hand, turn ?? "SENTE");
+            const problems = Rules.validatePosition(pos, { tsume: true });
+            if (problems.length > 0) fail(lineNo, `invalid initial position (${problems.map((p) => p.kind).join(", ")})`);
+            return new Game(pos);
+        };
+
+        for (const { text: s, lineNo } of statements) {
+            if (/^V\d/.test(s)) continue;
+
+            if (s.startsWith("N+") || s.startsWith("N-")) {
+                headers[s.slice(0, 2)] = s.slice(2);
+                continue;
+            }
+            if (s.startsWith("$")) {
+                const idx = s.indexOf(":");
+                if (idx < 0) fail(lineNo, `malformed header "${s}"`);
+                headers[s.slice(1, idx)] = s.slice(idx + 1);
+                continue;
+            }
+
+            if (s.startsWith("PI")) {
+                if (game) fail(lineNo, "position after moves");
+                board = InitialSetup.standard().board;
+                const body = s.slice(2);
+                if (body.length % 4 !== 0) fail(lineNo, `malformed PI line "${s}"`);
+                for (let i = 0; i < body.length; i += 4) {
+                    const sq = { file: Number(body[i]), rank: Number(body[i + 1]) };
+                    const code = body.slice(i + 2, i + 4);
+                    const p = board.isInside(sq) ? board.get(sq) : undefined;
+                    if (!p || this.pieceCode(p) !== code) fail(lineNo, `no ${code} to remove at ${body.slice(i, i + 2)}`);
+                    board.set(sq, undefined);
+                }
+                continue;
+            }
+
+            const row = /^P([1-9])(.*)$/.exec(s);
+            if (row) {
+                if (game) fail(lineNo, "position after moves");
+                board = board ?? new Board();
+                const rank = Number(row[1]);
+                const cells = row[2].padEnd(27, " ");
+                for (let c = 0; c < 9; c++) {
+                    const cell = cells.slice(c * 3, c * 3 + 3);
+                    const sq = { file: 9 - c, rank };
+                    if (cell.trim() === "*" || cell.trim() === "") {
+                        board.set(sq, undefined);
+                        continue;
+                    }
+                    const named = CODE_TO_PIECE[cell.slice(1)];
+                    if (!named || (cell[0] !== "+" && cell[0] !== "-")) fail(lineNo, `malformed square "${cell}"`);
+                    board.set(sq, new Piece(cell[0] === "+" ? "SENTE" : "GOTE", named.type, named.promoted));
+                }
+                continue;
+            }
+
+            const put = /^P([+-])(.*)$/.exec(s);
+            if (put) {
+                if (game) fail(lineNo, "position after moves");
+                board = board ?? new Board();
+                const owner: Player = put[1] === "+" ? "SENTE" : "GOTE";
+                const body = put[2];
+                if (body.length % 4 !== 0) fail(lineNo, `malformed "${s}"`);
+                for (let i = 0; i < body.length; i += 4) {
+                    const sqText = body.slice(i, i + 2);
+                    const code = body.slice(i + 2, i + 4);
+                    if (sqText === "00" && code === "AL") {
+                        this.fillRemaining(board, hand, owner);
+                        continue;
+                    }
+                    const named = CODE_TO_PIECE[code];
+                    if (!named) fail(lineNo, `unknown piece "${code}"`);
+                    if (sqText === "00") {
+                        if (named.promoted || named.type === PieceType.OU) fail(lineNo, `"${code}" cannot be in hand`);
+                        hand.add(owner, named.type, 1);
+                    } else {
+                        const sq = { file: Number(sqText[0]), rank: Number(sqText[1]) };
+                        if (!board.isInside(sq)) fail(lineNo, `bad square "${sqText}"`);
+                        board.set(sq, new Piece(owner, named.type, named.promoted));
+                    }
+                }
+                continue;
+            }
+
+            if (s === "+" || s === "-") {
+                if (game) fail(lineNo, "side to move after moves");
+                turn = s === "+" ? "SENTE" : "GOTE";
+                continue;
+            }
+
+            const mvText = /^([+-])(\d)(\d)(\d)(\d)([A-Z]{2})$/.exec(s);
+            if (mvText) {
+                if (special) fail(lineNo, `move "${s}" after ${special}`);
+                if (!game) {
+                    if (!board) fail(lineNo, "move before the initial position");
+                    game = start(lineNo);
+                }
+                const g = game!;
+                if (g.getResult().kind !== "ONGOING") fail(lineNo, `move "${s}" after the game has ended`);
+                const sign: Player = mvText[1] === "+" ? "SENTE" : "GOTE";
+                if (sign !== g.pos.turn) fail(lineNo, `"${s}" is not the side to move`);
+                const mv = this.parseMove(g.pos, mvText, lineNo);
+                if (!Rules.isLegal(g.pos, mv)) fail(lineNo, `illegal move "${s}"`);
+                g.play(mv);
+                times.push(undefined);
+                continue;
+            }
+
+            const time = /^T(\d+(?:\.\d+)?)$/.exec(s);
+            if (time) {
+                if (times.length === 0) fail(lineNo, "time before any move");
+                times[times.length - 1] = Number(time[1]);
+                game!.getCurrentNode().consumedMs = Number(time[1]) * 1000;
+                continue;
+            }
+
+            if (s.startsWith("%")) {
+                if (!game) {
+                    if (!board) fail(lineNo, `"${s}" before the initial position`);
+                    game = start(lineNo);
+                }
+                if (!this.applySpecial(game!, s)) special = s;
+                continue;
+            }
+
+            fail(lineNo, `unrecognized statement "${s}"`);
+        }
+
+        if (!game) {
+            if (!board) throw new Error("CSA: no initial position");
+            game = start(statements[statements.length - 1]?.lineNo ?? 0);
+        }
+        return special ? { game, headers, times, special } : { game, headers, times };
+    }
+
+    private static parseMove(pos: Position, m: RegExpExecArray, lineNo: number): Move {
+        const [, , ff, fr, tf, tr, code] = m;
+        const named = CODE_TO_PIECE[code];
+        if (!named) throw new Error(`CSA line ${lineNo}: unknown piece "${code}"`);
+        const to = { file: Number(tf), rank: Number(tr) };
+        if (!pos.board.isInside(to)) throw new Error(`CSA line ${lineNo}: bad square "${tf}${tr}"`);
+
+        if (ff === "0" && fr === "0") {
+            if (named.promoted) throw new Error(`CSA line ${lineNo}: cannot drop "${code}"`);
+            return { kind: "DROP", pieceType: named.type, to };
+        }
+
+        const from = { file: Number(ff), rank: Number(fr) };
+        const p = pos.board.isInside(from) ? pos.board.get(from) : undefined;
+        if (!p || p.type !== named.type) {
+            throw new Error(`CSA line ${lineNo}: no ${code} at ${ff}${fr}`);
+        }
+        // 成駒コードで未成の駒を動かしたら成り
+        if (named.promoted && !p.promoted) return { kind: "MOVE", from, to, promote: true };
+        if (!named.promoted && p.promoted) throw new Error(`CSA line ${lineNo}: promoted piece cannot unpromote`);
+        return { kind: "MOVE", from, to };
+    }
+
+    // 盤上と相手の持ち駒にない残りの駒を owner の持ち駒にする（玉を除く）
+    private static fillRemaining(board: Board, hand: Hand, owner: Player): void {
+        for (const t of HAND_ORDER) {
+            let used = hand.get("SENTE", t) + hand.get("GOTE", t);
+            for (const { piece } of board.entries()) {
+                if (piece.type === t) used++;
+            }
+            const rest = FULL_SET[t] - used;
+            if (rest > 0) hand.add(owner, t, rest);
+        }
+    }
+
+    // 終局を表す特殊な手を GameResult に反映する。対応しなければ false
+    // 千日手・詰みなど指し手から判定済みの結果はそのまま残す
+    private static applySpecial(game: Game, s: string): boolean {
+        const turn = game.pos.turn;
+        if (game.getResult().kind !== "ONGOING") return true;
+        switch (s) {
+            case "%TORYO":
+                game.resign(turn);
+                return true;
+            case "%TSUMI":
+                game.setResult({ kind: "CHECKMATE", winner: opposite(turn) });
+                return true;
+            case "%ILLEGAL_MOVE":
+                game.setResult({ kind: "ILLEGAL_MOVE", loser: turn });
+                return true;
+            case "%+ILLEGAL_ACTION":
+                game.setResult({ kind: "ILLEGAL_MOVE", loser: "SENTE" });
+                return true;
+            case "%-ILLEGAL_ACTION":
+                game.setResult({ kind: "ILLEGAL_MOVE", loser: "GOTE" });
+                return true;
+            case "%SENNICHITE":
+                game.setResult({ kind: "DRAW_REPETITION" });
+                return true;
+            case "%KACHI":
+                // 宣言の成否は局面から判定する
+                game.declare(turn);
+                return true;
+            case "%JISHOGI":
+                game.setResult({ kind: "DRAW_IMPASSE" });
+                return true;
+            case "%HIKIWAKE":
+                game.setResult({ kind: "DRAW_AGREEMENT" });
+                return true;
+            case "%TIME_UP":
+                // 手番側の時間切れ（手番でない側の負けは %+ILLEGAL_ACTION などで書いてある）
+                game.setResult({ kind: "TIME_LOSS", loser: turn });
+                return true;
+            default:
+                return false;
+        }
+    }
+}
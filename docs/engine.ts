@@ -0,0 +1,557 @@
+// engine.ts
+// 探索エンジン（反復深化 alpha-beta + 静止探索 + 置換表）。FastPosition の上で動く。
+// DOM には触らないので、テストからも Web Worker からもそのまま呼べる。
+
+import { Move, Position } from "./main.js";
+import { FastPosition, FU, GI, GOTE, HAND_KINDS, HI, KA, KE, KI, KY, OU, PROMOTED, fileOf, isDrop, isPromote, moveFrom, moveTo, rankOf, sqIndex } from "./fastpos.js";
+
+// =====================
+// 型
+// =====================
+
+export type SearchOptions = {
+    maxDepth?: number;
+    nodeLimit?: number;
+    timeLimitMs?: number;
+    // AbortSignal 互換。探索中に aborted になれば、直前の反復の結果を返して止まる
+    signal?: { readonly aborted: boolean };
+    // randomness > 0 のとき評価値に seed で決まる揺らぎ（±randomness）を足す
+    seed?: number;
+    randomness?: number;
+    // 時計の差し替え（既定は Date.now）
+    now?: () => number;
+    // 反復ごとの途中経過
+    onIteration?: (info: SearchInfo) => void;
+};
+
+// score は手番側から見た値（centipawn）。詰みは ±(MATE_SCORE - 手数)
+export type SearchInfo = {
+    depth: number;
+    score: number;
+    nodes: number;
+    timeMs: number;
+    pv: Move[];
+};
+
+export type SearchResult = SearchInfo & {
+    move: Move | null; // 合法手がなければ null
+};
+
+export const MATE_SCORE = 30000;
+const MATE_BOUND = MATE_SCORE - 1000;
+const INF = 32000;
+const MAX_PLY = 128;
+
+// 限度を何も指定しないときの深さ
+const DEFAULT_DEPTH = 4;
+
+export const isMateScore = (score: number): boolean => Math.abs(score) >= MATE_BOUND;
+
+// =====================
+// 評価関数
+// =====================
+
+// 駒割り（盤上）。添字は駒コードの下位5bit（成りフラグ込み）
+const PIECE_VALUE = new Int16Array(32);
+PIECE_VALUE[FU] = 90;
+PIECE_VALUE[KY] = 250;
+PIECE_VALUE[KE] = 280;
+PIECE_VALUE[GI] = 380;
+PIECE_VALUE[KI] = 450;
+PIECE_VALUE[KA] = 580;
+PIECE_VALUE[HI] = 650;
+PIECE_VALUE[FU | PROMOTED] = 530;
+PIECE_VALUE[KY | PROMOTED] = 490;
+PIECE_VALUE[KE | PROMOTED] = 510;
+PIECE_VALUE[GI | PROMOTED] = 490;
+PIECE_VALUE[KA | PROMOTED] = 830;
+PIECE_VALUE[HI | PROMOTED] = 950;
+
+// 持ち駒はどこにでも打てるぶん少し高く見る
+const HAND_VALUE = new Int16Array(16);
+HAND_VALUE[FU] = 100;
+HAND_VALUE[KY] = 270;
+HAND_VALUE[KE] = 300;
+HAND_VALUE[GI] = 410;
+HAND_VALUE[KI] = 490;
+HAND_VALUE[KA] = 640;
+HAND_VALUE[HI] = 720;
+
+const isGoldLike = (kind: number): boolean =>
+    kind === KI || kind === (FU | PROMOTED) || kind === (KY | PROMOTED) || kind === (KE | PROMOTED) || kind === (GI | PROMOTED);
+
+// 駒の位置の評価（先手視点。rr は先手から見た段、1 が敵陣の奥）
+function pieceSquareValue(kind: number, file: number, rr: number): number {
+    const edge = file === 1 || file === 9;
+    switch (kind) {
+        case FU:
+            return rr >= 7 ? 0 : Math.min(20, (7 - rr) * 6);
+        case KE:
+            return (edge ? -10 : 0) + (rr <= 7 ? 10 : 0);
+        case GI:
+            return (file >= 3 && file <= 7 ? 5 : 0) + (rr >= 5 && rr <= 7 ? 10 : 0);
+        case KI:
+            return rr >= 7 ? 10 : rr <= 5 ? -10 : 0;
+        case OU:
+            return (rr === 9 ? 30 : rr === 8 ? 20 : rr === 7 ? 0 : -30) + (file <= 2 || file >= 8 ? 10 : file === 5 ? 0 : 5);
+        default:
+            // と金など（敵陣に近いほど良い）
+            return isGoldLike(kind) ? (9 - rr) * 4 : 0;
+    }
+}
+
+// PST[color][kind*81 + sq]
+const PST: Int16Array[] = [new Int16Array(32 * 81), new Int16Array(32 * 81)];
+for (let kind = 1; kind < 32; kind++) {
+    for (let sq = 0; sq < 81; sq++) {
+        const f = fileOf(sq);
+        const r = rankOf(sq);
+        PST[0][kind * 81 + sq] = pieceSquareValue(kind, f, r);
+        PST[1][kind * 81 + sq] = pieceSquareValue(kind, 10 - f, 10 - r);
+    }
+}
+
+// 玉の安全度（color 側から見て大きいほど安全）
+function kingSafety(fp: FastPosition, color: number): number {
+    const k = fp.kingSq[color];
+    if (k < 0) return 0;
+    const b = fp.board;
+    const ourBit = color === 1 ? GOTE : 0;
+    const enemy = color ^ 1;
+    const kf = fileOf(k);
+    const kr = rankOf(k);
+
+    // 周囲2マス以内の金銀
+    let score = 0;
+    for (let df = -2; df <= 2; df++) {
+        for (let dr = -2; dr <= 2; dr++) {
+            const f = kf + df;
+            const r = kr + dr;
+            if (f < 1 || f > 9 || r < 1 || r > 9) continue;
+            const p = b[sqIndex(f, r)];
+            if (!p || (p & GOTE) !== ourBit) continue;
+            const kind = p & 31;
+            if (kind === GI || isGoldLike(kind)) score += 12;
+        }
+    }
+
+    // 玉の隣で相手の利きがあるマス（相手の持ち駒が多いほど危ない）
+    let pressure = 0;
+    for (const kind of HAND_KINDS) pressure += fp.hands[enemy * 8 + kind] * (kind === FU ? 1 : 2);
+    const weight = 8 + Math.min(pressure, 10) * 2;
+    for (let df = -1; df <= 1; df++) {
+        for (let dr = -1; dr <= 1; dr++) {
+            if (df === 0 && dr === 0) continue;
+            const f = kf + df;
+            const r = kr + dr;
+            if (f < 1 || f > 9 || r < 1 || r > 9) continue;
+            if (fp.isAttacked(sqIndex(f, r), enemy)) score -= weight;
+        }
+    }
+    return score;
+}
+
+// =====================
+// 置換表
+// =====================
+
+const EXACT = 0;
+const LOWER = 1;
+const UPPER = 2;
+
+class TranspositionTable {
+    private readonly mask: number;
+    private readonly keyHi: Uint32Array;
+    private readonly keyLo: Uint32Array;
+    private readonly moves: Int32Array;
+    private readonly scores: Int32Array;
+    private readonly depths: Int8Array;
+    private readonly flags: Uint8Array;
+
+    constructor(bits: number) {
+        const size = 1 << bits;
+        this.mask = size - 1;
+        this.keyHi = new Uint32Array(size);
+        this.keyLo = new Uint32Array(size);
+        this.moves = new Int32Array(size);
+        this.scores = new Int32Array(size);
+        this.depths = new Int8Array(size).fill(-1);
+        this.flags = new Uint8Array(size);
+    }
+
+    // 見つかれば添字、なければ -1
+    probe(hi: number, lo: number): number {
+        const i = lo & this.mask;
+        return this.depths[i] >= 0 && this.keyHi[i] === hi && this.keyLo[i] === lo ? i : -1;
+    }
+
+    store(hi: number, lo: number, depth: number, flag: number, score: number, move: number): void {
+        const i = lo & this.mask;
+        // 別局面は常に上書き、同じ局面は深いほうを残す
+        if (this.keyHi[i] === hi && this.keyLo[i] === lo && this.depths[i] > depth) return;
+        this.keyHi[i] = hi;
+        this.keyLo[i] = lo;
+        this.depths[i] = depth;
+        this.flags[i] = flag;
+        this.scores[i] = score;
+        this.moves[i] = move;
+    }
+
+    move(i: number): number {
+        return this.moves[i];
+    }
+    score(i: number): number {
+        return this.scores[i];
+    }
+    depth(i: number): number {
+        return this.depths[i];
+    }
+    flag(i: number): number {
+        return this.flags[i];
+    }
+
+    clear(): void {
+        this.depths.fill(-1);
+    }
+}
+
+// 詰みの値は「その局面からの手数」にして格納する
+const toTT = (score: number, ply: number): number => (score >= MATE_BOUND ? score + ply : score <= -MATE_BOUND ? score - ply : score);
+const fromTT = (score: number, ply: number): number => (score >= MATE_BOUND ? score - ply : score <= -MATE_BOUND ? score + ply : score);
+
+// =====================
+// 探索
+// =====================
+
+export class Engine {
+    private readonly tt: TranspositionTable;
+    private readonly killers = new Int32Array(MAX_PLY * 2);
+    private readonly history = new Int32Array(1 << 15);
+    private readonly pvTable = new Int32Array(MAX_PLY * MAX_PLY);
+    private readonly pvLength = new Int32Array(MAX_PLY);
+    // ルートからの局面ハッシュ（探索中の千日手判定）
+    private readonly pathHi: number[] = [];
+    private readonly pathLo: number[] = [];
+
+    private fp = new FastPosition();
+    private stopped = false;
+    private nodes = 0;
+    private nodeLimit = Infinity;
+    private deadline = Infinity;
+    private rootDepth = 0;
+    private signal: { readonly aborted: boolean } | undefined;
+    private now: () => number = Date.now;
+    private seed = 0;
+    private randomness = 0;
+
+    // 置換表は 2^ttBits エントリ
+    constructor(ttBits: number = 18) {
+        this.tt = new TranspositionTable(ttBits);
+    }
+
+    // onIteration などから呼ぶと、直前の反復の結果で探索を打ち切る
+    stop(): void {
+        this.stopped = true;
+    }
+
+    // 置換表と履歴を捨てる（search も毎回これを呼ぶので、同じ seed なら同じ手を返す）
+    clear(): void {
+        this.tt.clear();
+        this.history.fill(0);
+        this.killers.fill(0);
+    }
+
+    // 手番側から見た静的評価値
+    evaluate(pos: Position): number {
+        this.fp = FastPosition.fromPosition(pos);
+        return this.evaluateFast();
+    }
+
+    search(pos: Position, options: SearchOptions = {}): SearchResult {
+        this.now = options.now ?? Date.now;
+        const start = this.now();
+        const limited = options.nodeLimit !== undefined || options.timeLimitMs !== undefined || options.signal !== undefined;
+        const maxDepth = Math.min(options.maxDepth ?? (limited ? MAX_PLY / 2 : DEFAULT_DEPTH), MAX_PLY / 2);
+
+        this.fp = FastPosition.fromPosition(pos);
+        this.stopped = false;
+        this.nodes = 0;
+        this.nodeLimit = options.nodeLimit ?? Infinity;
+        this.deadline = options.timeLimitMs !== undefined ? start + options.timeLimitMs : Infinity;
+        this.signal = options.signal;
+        this.seed = (options.seed ?? 0) >>> 0;
+        this.randomness = Math.max(0, Math.floor(options.randomness ?? 0));
+        this.clear();
+        this.pathHi.length = 0;
+        this.pathLo.length = 0;
+
+        const rootMoves = this.fp.generateLegal();
+        if (rootMoves.length === 0) {
+            return { move: null, score: -MATE_SCORE, pv: [], depth: 0, nodes: 0, timeMs: this.now() - start };
+        }
+
+        // 1反復も終わらなかったときは生成順の先頭を返す
+        const fallback = FastPosition.decodeMove(rootMoves[0]);
+        let result: SearchResult = { move: fallback, score: 0, pv: [fallback], depth: 0, nodes: 0, timeMs: 0 };
+
+        for (let depth = 1; depth <= maxDepth; depth++) {
+            this.rootDepth = depth;
+            const score = this.negamax(depth, -INF, INF, 0);
+            if (this.stopped) break;
+
+            const pv = this.collectPv(depth).map((m) => FastPosition.decodeMove(m));
+            result = { move: pv[0] ?? fallback, score, pv, depth, nodes: this.nodes, timeMs: this.now() - start };
+            options.onIteration?.({ depth, score, nodes: this.nodes, timeMs: result.timeMs, pv });
+
+            // 読み切った詰みはそれ以上深くしても変わらない
+            if (isMateScore(score) && MATE_SCORE - Math.abs(score) <= depth) break;
+            if (this.stopped) break;
+        }
+
+        result.nodes = this.nodes;
+        result.timeMs = this.now() - start;
+        return result;
+    }
+
+    // -------- 本体 --------
+
+    private negamax(depth: number, alpha: number, beta: number, ply: number): number {
+        const fp = this.fp;
+        this.pvLength[ply] = ply;
+        if (ply > 0 && this.isRepetition()) return 0;
+
+        const inCheck = fp.inCheck();
+        // 王手延長（読みが伸びすぎないようにルートの深さの2倍まで）
+        if (inCheck && ply < this.rootDepth * 2) depth++;
+        if (depth <= 0) return this.quiesce(alpha, beta, ply);
+        if (ply >= MAX_PLY - 1) return this.evaluateFast();
+
+        this.countNode();
+        if (this.stopped) return 0;
+
+        let ttMove = 0;
+        const e = this.tt.probe(fp.hashHi, fp.hashLo);
+        if (e >= 0) {
+            ttMove = this.tt.move(e);
+            if (ply > 0 && this.tt.depth(e) >= depth) {
+                const s = fromTT(this.tt.score(e), ply);
+                const flag = this.tt.flag(e);
+                if (flag === EXACT) return s;
+                if (flag === LOWER && s >= beta) return s;
+                if (flag === UPPER && s <= alpha) return s;
+            }
+        }
+
+        const moves = this.orderedMoves(ply, ttMove, false);
+        if (moves.length === 0) return -MATE_SCORE + ply;
+
+        const alphaOrig = alpha;
+        let best = -INF;
+        let bestMove = 0;
+        for (let i = 0; i < moves.length; i++) {
+            const m = moves[i];
+            this.push();
+            fp.makeMove(m);
+            let score: number;
+            if (i === 0) {
+                score = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+            } else {
+                // PVS: まず窓幅0で調べ、超えたら取り直す
+                score = -this.negamax(depth - 1, -alpha - 1, -alpha, ply + 1);
+                if (score > alpha && score < beta) score = -this.negamax(depth - 1, -beta, -alpha, ply + 1);
+            }
+            fp.unmakeMove(m);
+            this.pop();
+            if (this.stopped) return 0;
+
+            if (score <= best) continue;
+            best = score;
+            bestMove = m;
+            if (score <= alpha) continue;
+            alpha = score;
+            this.updatePv(ply, m);
+            if (score >= beta) {
+                if (!this.isCapture(m)) this.rememberQuiet(ply, m, depth);
+                break;
+            }
+        }
+
+        const flag = best >= beta ? LOWER : best > alphaOrig ? EXACT : UPPER;
+        this.tt.store(fp.hashHi, fp.hashLo, depth, flag, toTT(best, ply), bestMove);
+        return best;
+    }
+
+    // 静止探索: 駒を取る手だけ（王手されているときは全部の応手）
+    private quiesce(alpha: number, beta: number, ply: number): number {
+        const fp = this.fp;
+        this.pvLength[ply] = ply;
+        this.countNode();
+        if (this.stopped) return 0;
+        if (ply >= MAX_PLY - 1) return this.evaluateFast();
+
+        const inCheck = fp.inCheck();
+        let best = -INF;
+        if (!inCheck) {
+            best = this.evaluateFast();
+            if (best >= beta) return best;
+            if (best > alpha) alpha = best;
+        }
+
+        const moves = this.orderedMoves(ply, 0, !inCheck);
+        if (inCheck && moves.length === 0) return -MATE_SCORE + ply;
+
+        for (const m of moves) {
+            fp.makeMove(m);
+            const score = -this.quiesce(-beta, -alpha, ply + 1);
+            fp.unmakeMove(m);
+            if (this.stopped) return 0;
+
+            if (score <= best) continue;
+            best = score;
+            if (score <= alpha) continue;
+            alpha = score;
+            this.updatePv(ply, m);
+            if (score >= beta) break;
+        }
+        return best;
+    }
+
+    // -------- 指し手の並べ替え --------
+
+    // 合法手を 置換表の手 > 駒取り（MVV-LVA） > 成り > 王手 > キラー > 履歴 の順に
+    private orderedMoves(ply: number, ttMove: number, capturesOnly: boolean): number[] {
+        const fp = this.fp;
+        const b = fp.board;
+        const us = fp.side;
+        const moves: number[] = [];
+        const keys: number[] = [];
+
+        for (const m of fp.generatePseudoLegal()) {
+            const victim = isDrop(m) ? 0 : b[moveTo(m)];
+            if (capturesOnly && !victim) continue;
+
+            fp.makeMove(m);
+            const legal = !fp.inCheck(us);
+            const givesCheck = legal && fp.inCheck(us ^ 1);
+            fp.unmakeMove(m);
+            if (!legal) continue;
+
+            let key: number;
+            if (m === ttMove) {
+                key = 1 << 30;
+            } else if (victim) {
+                const attacker = b[moveFrom(m)] & 31;
+                key = (1 << 26) + PIECE_VALUE[victim & 31] * 64 - PIECE_VALUE[attacker];
+            } else if (isPromote(m)) {
+                key = 1 << 25;
+            } else if (givesCheck) {
+                key = 1 << 24;
+            } else if (m === this.killers[ply * 2]) {
+                key = (1 << 23) + 1;
+            } else if (m === this.killers[ply * 2 + 1]) {
+                key = 1 << 23;
+            } else {
+                key = Math.min(this.history[m & 0x7fff], (1 << 23) - 1);
+            }
+            moves.push(m);
+            keys.push(key);
+        }
+
+        // 同点は生成順（安定ソート）
+        const idx = moves.map((_, i) => i).sort((a, c) => keys[c] - keys[a]);
+        return idx.map((i) => moves[i]);
+    }
+
+    private isCapture(m: number): boolean {
+        return !isDrop(m) && this.fp.board[moveTo(m)] !== 0;
+    }
+
+    private rememberQuiet(ply: number, m: number, depth: number): void {
+        if (this.killers[ply * 2] !== m) {
+            this.killers[ply * 2 + 1] = this.killers[ply * 2];
+            this.killers[ply * 2] = m;
+        }
+        this.history[m & 0x7fff] += depth * depth;
+    }
+
+    private updatePv(ply: number, m: number): void {
+        const row = ply * MAX_PLY;
+        const child = (ply + 1) * MAX_PLY;
+        this.pvTable[row + ply] = m;
+        const len = this.pvLength[ply + 1];
+        for (let i = ply + 1; i < len; i++) this.pvTable[row + i] = this.pvTable[child + i];
+        this.pvLength[ply] = Math.max(len, ply + 1);
+    }
+
+    // 読み筋。置換表で打ち切られて短くなった分は置換表の手でつなぐ
+    private collectPv(depth: number): number[] {
+        const fp = this.fp;
+        const pv = Array.from(this.pvTable.subarray(0, this.pvLength[0]));
+        for (const m of pv) fp.makeMove(m);
+        while (pv.length < depth) {
+            const e = this.tt.probe(fp.hashHi, fp.hashLo);
+            const m = e >= 0 ? this.tt.move(e) : 0;
+            if (!m || !fp.generateLegal().includes(m)) break;
+            fp.makeMove(m);
+            pv.push(m);
+        }
+        for (let i = pv.length - 1; i >= 0; i--) fp.unmakeMove(pv[i]);
+        return pv;
+    }
+
+    // -------- 千日手・限度 --------
+
+    private push(): void {
+        this.pathHi.push(this.fp.hashHi);
+        this.pathLo.push(this.fp.hashLo);
+    }
+
+    private pop(): void {
+        this.pathHi.pop();
+        this.pathLo.pop();
+    }
+
+    // 探索中に同じ局面（同じ手番）が出たら引き分け扱い
+    private isRepetition(): boolean {
+        const hi = this.fp.hashHi;
+        const lo = this.fp.hashLo;
+        for (let i = this.pathHi.length - 2; i >= 0; i -= 2) {
+            if (this.pathHi[i] === hi && this.pathLo[i] === lo) return true;
+        }
+        return false;
+    }
+
+    private countNode(): void {
+        this.nodes++;
+        if (this.nodes >= this.nodeLimit) this.stopped = true;
+        if ((this.nodes & 1023) !== 0) return;
+        if (this.signal?.aborted || this.now() >= this.deadline) this.stopped = true;
+    }
+
+    // -------- 評価 --------
+
+    private evaluateFast(): number {
+        const fp = this.fp;
+        const b = fp.board;
+        let score = 0; // 先手から見た値
+        for (let sq = 0; sq < 81; sq++) {
+            const p = b[sq];
+            if (!p) continue;
+            const kind = p & 31;
+            const color = p & GOTE ? 1 : 0;
+            const v = PIECE_VALUE[kind] + PST[color][kind * 81 + sq];
+            score += color ? -v : v;
+        }
+        for (const kind of HAND_KINDS) score += HAND_VALUE[kind] * (fp.hands[kind] - fp.hands[8 + kind]);
+        score += kingSafety(fp, 0) - kingSafety(fp, 1);
+
+        if (this.randomness > 0) {
+            // 局面ハッシュと seed から決まる揺らぎ（同じ seed なら毎回同じ）
+            let x = (fp.hashLo ^ this.seed ^ Math.imul(fp.hashHi, 0x9e3779b1)) >>> 0;
+            x = Math.imul(x ^ (x >>> 16), 0x85ebca6b) >>> 0;
+            x = (x ^ (x >>> 13)) >>> 0;
+            score += (x % (2 * this.randomness + 1)) - this.randomness;
+        }
+        return fp.side === 0 ? score : -score;
+    }
+}
@@ -0,0 +1,36 @@
+// engineworker.ts
+// 盤のページでコンピュータの手を読む Web Worker。index.html が module worker として起動する。
+// 止めるときは Worker ごと terminate する（SharedArrayBuffer はページのヘッダーがないと使えない）。
+
+import { Engine } from "./engine.js";
+import { Sfen } from "./sfen.js";
+
+// =====================
+// ページとのやりとり
+// =====================
+
+export type EngineRequest = {
+    sfen: string;
+    nodeLimit: number;
+    seed: number;
+    randomness: number;
+};
+
+// 指し手は USI 文字列。合法手がなければ move は null
+export type EngineReply =
+    | { type: "bestmove"; move: string | null; score: number; depth: number }
+    | { type: "error"; message: string };
+
+const engine = new Engine();
+
+self.addEventListener("message", (e: MessageEvent<EngineRequest>) => {
+    let reply: EngineReply;
+    try {
+        const r = e.data;
+        const result = engine.search(Sfen.parse(r.sfen).position, { nodeLimit: r.nodeLimit, seed: r.seed, randomness: r.randomness });
+        reply = { type: "bestmove", move: result.move ? Sfen.formatMove(result.move) : null, score: result.score, depth: result.depth };
+    } catch (err) {
+        reply = { type: "error", message: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(reply);
+});
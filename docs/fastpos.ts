@@ -0,0 +1,549 @@
+// fastpos.ts
+// 探索用の高速な局面表現（81マスの配列＋差分更新の Zobrist ハッシュ）。
+// 公開 API の Position / Move とは fromPosition / toPosition / encodeMove / decodeMove で相互変換する。
+
+import { Board, Hand, Move, Piece, PieceType, Player, Position } from "./main.js";
+
+// =====================
+// 駒コード
+// =====================
+// 下位4bit: 駒種、16: 成り、32: 後手
+
+export const FU = 1;
+export const KY = 2;
+export const KE = 3;
+export const GI = 4;
+export const KI = 5;
+export const KA = 6;
+export const HI = 7;
+export const OU = 8;
+export const PROMOTED = 16;
+export const GOTE = 32;
+
+const BLACK = 0; // 先手
+const WHITE = 1; // 後手
+
+const TYPE_TO_KIND: Record<PieceType, number> = {
+    [PieceType.FU]: FU,
+    [PieceType.KY]: KY,
+    [PieceType.KE]: KE,
+    [PieceType.GI]: GI,
+    [PieceType.KI]: KI,
+    [PieceType.KA]: KA,
+    [PieceType.HI]: HI,
+    [PieceType.OU]: OU,
+};
+const KIND_TO_TYPE: PieceType[] = [
+    PieceType.FU, // 0 は使わない
+    PieceType.FU,
+    PieceType.KY,
+    PieceType.KE,
+    PieceType.GI,
+    PieceType.KI,
+    PieceType.KA,
+    PieceType.HI,
+    PieceType.OU,
+];
+
+export const HAND_KINDS = [FU, KY, KE, GI, KI, KA, HI];
+
+// マス番号: (file-1)*9 + (rank-1)
+export const sqIndex = (file: number, rank: number): number => (file - 1) * 9 + (rank - 1);
+export const fileOf = (sq: number): number => Math.floor(sq / 9) + 1;
+export const rankOf = (sq: number): number => (sq % 9) + 1;
+
+// =====================
+// 利きテーブル（先手視点で前 = rank が減る方向）
+// =====================
+
+// 8方向: 0:前 1:右前 2:左前 3:右 4:左 5:後 6:右後 7:左後（先手視点、右 = file が減る）
+const DIRS: Array<[number, number]> = [
+    [0, -1],
+    [-1, -1],
+    [1, -1],
+    [-1, 0],
+    [1, 0],
+    [0, 1],
+    [-1, 1],
+    [1, 1],
+];
+const DIAGONALS = [1, 2, 6, 7];
+const ORTHOGONALS = [0, 3, 4, 5];
+
+// 駒種（成りフラグ込み）ごとの1歩の方向（先手視点）
+const STEP_DIRS: Record<number, number[]> = {
+    [FU]: [0],
+    [GI]: [0, 1, 2, 6, 7],
+    [KI]: [0, 1, 2, 3, 4, 5],
+    [OU]: [0, 1, 2, 3, 4, 5, 6, 7],
+    [FU | PROMOTED]: [0, 1, 2, 3, 4, 5],
+    [KY | PROMOTED]: [0, 1, 2, 3, 4, 5],
+    [KE | PROMOTED]: [0, 1, 2, 3, 4, 5],
+    [GI | PROMOTED]: [0, 1, 2, 3, 4, 5],
+    [KA | PROMOTED]: [0, 3, 4, 5],
+    [HI | PROMOTED]: [1, 2, 6, 7],
+};
+// 飛び駒の方向（先手視点）
+const RAY_DIRS: Record<number, number[]> = {
+    [KY]: [0],
+    [KA]: DIAGONALS,
+    [HI]: ORTHOGONALS,
+    [KA | PROMOTED]: DIAGONALS,
+    [HI | PROMOTED]: ORTHOGONALS,
+};
+
+// 後手は方向を上下反転する（左右は盤上の file で扱うので、前後だけ反転）
+const flipDir = (d: number): number => [5, 6, 7, 3, 4, 0, 1, 2][d];
+const reverseDir = (d: number): number => [5, 7, 6, 4, 3, 0, 2, 1][d];
+
+// NEIGHBOR[sq*8+d]: 隣のマス（盤外は -1）
+const NEIGHBOR = new Int8Array(81 * 8);
+// RAY[sq][d]: d 方向に盤端までのマス
+const RAY: number[][][] = [];
+// KNIGHT_TO[color][sq]: 桂の行き先
+const KNIGHT_TO: number[][][] = [[], []];
+
+for (let sq = 0; sq < 81; sq++) {
+    const f = fileOf(sq);
+    const r = rankOf(sq);
+    RAY.push([]);
+    for (let d = 0; d < 8; d++) {
+        const [df, dr] = DIRS[d];
+        const inside = (ff: number, rr: number) => ff >= 1 && ff <= 9 && rr >= 1 && rr <= 9;
+        NEIGHBOR[sq * 8 + d] = inside(f + df, r + dr) ? sqIndex(f + df, r + dr) : -1;
+        const ray: number[] = [];
+        for (let ff = f + df, rr = r + dr; inside(ff, rr); ff += df, rr += dr) ray.push(sqIndex(ff, rr));
+        RAY[sq].push(ray);
+    }
+    for (const color of [BLACK, WHITE]) {
+        const dr = color === BLACK ? -2 : 2;
+        const out: number[] = [];
+        for (const df of [-1, 1]) {
+            const ff = f + df;
+            const rr = r + dr;
+            if (ff >= 1 && ff <= 9 && rr >= 1 && rr <= 9) out.push(sqIndex(ff, rr));
+        }
+        KNIGHT_TO[color].push(out);
+    }
+}
+
+// STEP_MASK[color][kind]: その駒が1歩で動ける盤上の方向（bit）
+const STEP_MASK: number[][] = [new Array(32).fill(0), new Array(32).fill(0)];
+const RAY_MASK: number[][] = [new Array(32).fill(0), new Array(32).fill(0)];
+for (const color of [BLACK, WHITE]) {
+    for (const [k, dirs] of Object.entries(STEP_DIRS)) {
+        for (const d of dirs) STEP_MASK[color][Number(k)] |= 1 << (color === BLACK ? d : flipDir(d));
+    }
+    for (const [k, dirs] of Object.entries(RAY_DIRS)) {
+        for (const d of dirs) RAY_MASK[color][Number(k)] |= 1 << (color === BLACK ? d : flipDir(d));
+    }
+}
+
+// =====================
+// Zobrist
+// =====================
+
+// 決まった種から生成する（実行ごとに同じハッシュ）
+let seed = 0x2545f491;
+const rand32 = (): number => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return seed >>> 0;
+};
+const Z_PIECE_HI = new Uint32Array(64 * 81);
+const Z_PIECE_LO = new Uint32Array(64 * 81);
+for (let i = 0; i < 64 * 81; i++) {
+    Z_PIECE_HI[i] = rand32();
+    Z_PIECE_LO[i] = rand32();
+}
+// 持ち駒: [color][kind][枚数]。0枚は 0
+const MAX_HAND = 19;
+const Z_HAND_HI = new Uint32Array(2 * 16 * MAX_HAND);
+const Z_HAND_LO = new Uint32Array(2 * 16 * MAX_HAND);
+for (let i = 0; i < Z_HAND_HI.length; i++) {
+    if (i % MAX_HAND === 0) continue;
+    Z_HAND_HI[i] = rand32();
+    Z_HAND_LO[i] = rand32();
+}
+const Z_SIDE_HI = rand32();
+const Z_SIDE_LO = rand32();
+
+// =====================
+// 指し手コード
+// =====================
+// bit 0-6: 移動先、7-13: 移動元（打ちは 81 + 駒種）、14: 成り
+
+export const encode = (from: number, to: number, promote: boolean): number => to | (from << 7) | (promote ? 1 << 14 : 0);
+export const moveTo = (m: number): number => m & 127;
+export const moveFrom = (m: number): number => (m >> 7) & 127;
+export const isDrop = (m: number): boolean => moveFrom(m) >= 81;
+export const dropKind = (m: number): number => moveFrom(m) - 81;
+export const isPromote = (m: number): boolean => (m & (1 << 14)) !== 0;
+
+const canPromoteKind = (kind: number): boolean => kind === FU || kind === KY || kind === KE || kind === GI || kind === KA || kind === HI;
+const inZone = (color: number, sq: number): boolean => (color === BLACK ? rankOf(sq) <= 3 : rankOf(sq) >= 7);
+// その段に置くと動けなくなる（成り必須・打てない）
+const isDeadEnd = (color: number, kind: number, sq: number): boolean => {
+    const r = color === BLACK ? rankOf(sq) : 10 - rankOf(sq);
+    if (kind === FU || kind === KY) return r === 1;
+    if (kind === KE) return r <= 2;
+    return false;
+};
+
+// =====================
+// 局面
+// =====================
+
+export class FastPosition {
+    readonly board = new Int8Array(81);
+    // hands[color*8 + kind]
+    readonly hands = new Int8Array(16);
+    readonly kingSq = [-1, -1];
+    side = BLACK;
+    hashHi = 0;
+    hashLo = 0;
+
+    private readonly captured: number[] = [];
+
+    static fromPosition(pos: Position): FastPosition {
+        const fp = new FastPosition();
+        for (const { square, piece } of pos.board.entries()) {
+            const sq = sqIndex(square.file, square.rank);
+            fp.board[sq] = TYPE_TO_KIND[piece.type] | (piece.promoted ? PROMOTED : 0) | (piece.owner === "GOTE" ? GOTE : 0);
+            if (piece.type === PieceType.OU) fp.kingSq[piece.owner === "SENTE" ? BLACK : WHITE] = sq;
+        }
+        for (const [color, owner] of [[BLACK, "SENTE"], [WHITE, "GOTE"]] as const) {
+            for (const k of HAND_KINDS) fp.hands[color * 8 + k] = pos.hand.get(owner, KIND_TO_TYPE[k]);
+        }
+        fp.side = pos.turn === "SENTE" ? BLACK : WHITE;
+        fp.rehash();
+        return fp;
+    }
+
+    toPosition(): Position {
+        const b = new Board();
+        const h = new Hand();
+        for (let sq = 0; sq < 81; sq++) {
+            const p = this.board[sq];
+            if (!p) continue;
+            const owner: Player = p & GOTE ? "GOTE" : "SENTE";
+            b.set({ file: fileOf(sq), rank: rankOf(sq) }, new Piece(owner, KIND_TO_TYPE[p & 15], (p & PROMOTED) !== 0));
+        }
+        for (const k of HAND_KINDS) {
+            if (this.hands[k] > 0) h.add("SENTE", KIND_TO_TYPE[k], this.hands[k]);
+            if (this.hands[8 + k] > 0) h.add("GOTE", KIND_TO_TYPE[k], this.hands[8 + k]);
+        }
+        return new Position(b, h, this.side === BLACK ? "SENTE" : "GOTE");
+    }
+
+    clone(): FastPosition {
+        const fp = new FastPosition();
+        fp.board.set(this.board);
+        fp.hands.set(this.hands);
+        fp.kingSq[0] = this.kingSq[0];
+        fp.kingSq[1] = this.kingSq[1];
+        fp.side = this.side;
+        fp.hashHi = this.hashHi;
+        fp.hashLo = this.hashLo;
+        return fp;
+    }
+
+    static encodeMove(mv: Move): number {
+        if (mv.kind === "DROP") return encode(81 + TYPE_TO_KIND[mv.pieceType], sqIndex(mv.to.file, mv.to.rank), false);
+        return encode(sqIndex(mv.from.file, mv.from.rank), sqIndex(mv.to.file, mv.to.rank), !!mv.promote);
+    }
+
+    static decodeMove(m: number): Move {
+        const to = { file: fileOf(moveTo(m)), rank: rankOf(moveTo(m)) };
+        if (isDrop(m)) return { kind: "DROP", pieceType: KIND_TO_TYPE[dropKind(m)], to };
+        const from = { file: fileOf(moveFrom(m)), rank: rankOf(moveFrom(m)) };
+        return isPromote(m) ? { kind: "MOVE", from, to, promote: true } : { kind: "MOVE", from, to };
+    }
+
+    // 64bit ハッシュを16進文字列に（千日手・置換表のキー）
+    key(): string {
+        return this.hashHi.toString(16).padStart(8, "0") + this.hashLo.toString(16).padStart(8, "0");
+    }
+
+    private rehash(): void {
+        let hi = 0;
+        let lo = 0;
+        for (let sq = 0; sq < 81; sq++) {
+            const p = this.board[sq];
+            if (!p) continue;
+            hi ^= Z_PIECE_HI[p * 81 + sq];
+            lo ^= Z_PIECE_LO[p * 81 + sq];
+        }
+        for (let c = 0; c < 2; c++) {
+            for (const k of HAND_KINDS) {
+                const i = (c * 16 + k) * MAX_HAND + this.hands[c * 8 + k];
+                hi ^= Z_HAND_HI[i];
+                lo ^= Z_HAND_LO[i];
+            }
+        }
+        if (this.side === WHITE) {
+            hi ^= Z_SIDE_HI;
+            lo ^= Z_SIDE_LO;
+        }
+        this.hashHi = hi >>> 0;
+        this.hashLo = lo >>> 0;
+    }
+
+    private xorPiece(p: number, sq: number): void {
+        this.hashHi = (this.hashHi ^ Z_PIECE_HI[p * 81 + sq]) >>> 0;
+        this.hashLo = (this.hashLo ^ Z_PIECE_LO[p * 81 + sq]) >>> 0;
+    }
+
+    private addHand(color: number, kind: number, delta: number): void {
+        const idx = color * 8 + kind;
+        const base = (color * 16 + kind) * MAX_HAND;
+        const before = this.hands[idx];
+        const after = before + delta;
+        this.hashHi = (this.hashHi ^ Z_HAND_HI[base + before] ^ Z_HAND_HI[base + after]) >>> 0;
+        this.hashLo = (this.hashLo ^ Z_HAND_LO[base + before] ^ Z_HAND_LO[base + after]) >>> 0;
+        this.hands[idx] = after;
+    }
+
+    // =====================
+    // make / unmake
+    // =====================
+
+    makeMove(m: number): void {
+        const to = moveTo(m);
+        const us = this.side;
+        if (isDrop(m)) {
+            const kind = dropKind(m);
+            const p = kind | (us === WHITE ? GOTE : 0);
+            this.addHand(us, kind, -1);
+            this.board[to] = p;
+            this.xorPiece(p, to);
+            this.captured.push(0);
+        } else {
+            const from = moveFrom(m);
+            const p = this.board[from];
+            const cap = this.board[to];
+            if (cap) {
+                this.xorPiece(cap, to);
+                this.addHand(us, cap & 15, 1);
+            }
+            this.xorPiece(p, from);
+            const moved = isPromote(m) ? p | PROMOTED : p;
+            this.board[from] = 0;
+            this.board[to] = moved;
+            this.xorPiece(moved, to);
+            if ((p & 15) === OU) this.kingSq[us] = to;
+            this.captured.push(cap);
+        }
+        this.side ^= 1;
+        this.hashHi = (this.hashHi ^ Z_SIDE_HI) >>> 0;
+        this.hashLo = (this.hashLo ^ Z_SIDE_LO) >>> 0;
+    }
+
+    unmakeMove(m: number): void {
+        this.side ^= 1;
+        this.hashHi = (this.hashHi ^ Z_SIDE_HI) >>> 0;
+        this.hashLo = (this.hashLo ^ Z_SIDE_LO) >>> 0;
+        const us = this.side;
+        const to = moveTo(m);
+        const cap = this.captured.pop()!;
+        if (isDrop(m)) {
+            const p = this.board[to];
+            this.xorPiece(p, to);
+            this.board[to] = 0;
+            this.addHand(us, dropKind(m), 1);
+            return;
+        }
+        const from = moveFrom(m);
+        const moved = this.board[to];
+        const p = isPromote(m) ? moved & ~PROMOTED : moved;
+        this.xorPiece(moved, to);
+        this.board[to] = cap;
+        if (cap) {
+            this.xorPiece(cap, to);
+            this.addHand(us, cap & 15, -1);
+        }
+        this.board[from] = p;
+        this.xorPiece(p, from);
+        if ((p & 15) === OU) this.kingSq[us] = from;
+    }
+
+    // 指さずに手番だけ渡す（探索の null move 用）
+    makeNullMove(): void {
+        this.side ^= 1;
+        this.hashHi = (this.hashHi ^ Z_SIDE_HI) >>> 0;
+        this.hashLo = (this.hashLo ^ Z_SIDE_LO) >>> 0;
+    }
+
+    unmakeNullMove(): void {
+        this.makeNullMove();
+    }
+
+    // =====================
+    // 利き
+    // =====================
+
+    // by 側の駒が sq に利いているか
+    isAttacked(sq: number, by: number): boolean {
+        const b = this.board;
+        const byBit = by === WHITE ? GOTE : 0;
+        for (let d = 0; d < 8; d++) {
+            // d 方向の隣にいる駒が、逆方向（sq 向き）へ1歩で動けるか
+            const s = NEIGHBOR[sq * 8 + d];
+            if (s < 0) continue;
+            const p = b[s];
+            if (!p || (p & GOTE) !== byBit) continue;
+            const rd = reverseDir(d);
+            if (STEP_MASK[by][p & 31] & (1 << rd) || RAY_MASK[by][p & 31] & (1 << rd)) return true;
+        }
+        // 桂: 相手の桂の行き先の逆算
+        for (const s of KNIGHT_TO[by ^ 1][sq]) {
+            const p = b[s];
+            if (p && (p & GOTE) === byBit && (p & 31) === KE) return true;
+        }
+        // 飛び駒（隣接は上で判定済み）
+        for (let d = 0; d < 8; d++) {
+            const ray = RAY[sq][d];
+            const rd = reverseDir(d);
+            for (let i = 0; i < ray.length; i++) {
+                const p = b[ray[i]];
+                if (!p) continue;
+                if (i > 0 && (p & GOTE) === byBit && RAY_MASK[by][p & 31] & (1 << rd)) return true;
+                break;
+            }
+        }
+        return false;
+    }
+
+    inCheck(color: number = this.side): boolean {
+        const k = this.kingSq[color];
+        return k >= 0 && this.isAttacked(k, color ^ 1);
+    }
+
+    // =====================
+    // 指し手生成
+    // =====================
+
+    // 擬似合法手（王手放置は未除外、打ち歩詰めは除外済み）
+    generatePseudoLegal(out: number[] = []): number[] {
+        const b = this.board;
+        const us = this.side;
+        const usBit = us === WHITE ? GOTE : 0;
+
+        for (let from = 0; from < 81; from++) {
+            const p = b[from];
+            if (!p || (p & GOTE) !== usBit) continue;
+            const kind = p & 31;
+            const steps = STEP_MASK[us][kind];
+            for (let d = 0; d < 8; d++) {
+                if (!(steps & (1 << d))) continue;
+                const to = NEIGHBOR[from * 8 + d];
+                if (to >= 0) this.pushBoardMove(out, p, from, to);
+            }
+            if (kind === KE) {
+                for (const to of KNIGHT_TO[us][from]) this.pushBoardMove(out, p, from, to);
+            }
+            const rays = RAY_MASK[us][kind];
+            if (rays) {
+                for (let d = 0; d < 8; d++) {
+                    if (!(rays & (1 << d))) continue;
+                    for (const to of RAY[from][d]) {
+                        const t = b[to];
+                        if (t && (t & GOTE) === usBit) break;
+                        this.pushBoardMove(out, p, from, to);
+                        if (t) break;
+                    }
+                }
+            }
+        }
+
+        // 打ち
+        let pawnFiles = 0;
+        for (let sq = 0; sq < 81; sq++) if (b[sq] === (FU | usBit)) pawnFiles |= 1 << (fileOf(sq) - 1);
+        for (const kind of HAND_KINDS) {
+            if (this.hands[us * 8 + kind] <= 0) continue;
+            for (let to = 0; to < 81; to++) {
+                if (b[to]) continue;
+                if (isDeadEnd(us, kind, to)) continue;
+                if (kind === FU) {
+                    if (pawnFiles & (1 << (fileOf(to) - 1))) continue;
+                    const m = encode(81 + FU, to, false);
+                    if (this.isUchiFuZume(m)) continue;
+                    out.push(m);
+                    continue;
+                }
+                out.push(encode(81 + kind, to, false));
+            }
+        }
+        return out;
+    }
+
+    private pushBoardMove(out: number[], p: number, from: number, to: number): void {
+        const t = this.board[to];
+        if (t) {
+            if ((t & GOTE) === (p & GOTE)) return;
+            if ((t & 15) === OU) return; // 王は取れない（Rules と同じ扱い）
+        }
+        const kind = p & 31;
+        const color = p & GOTE ? WHITE : BLACK;
+        if (!canPromoteKind(kind) || !(inZone(color, from) || inZone(color, to))) {
+            out.push(encode(from, to, false));
+            return;
+        }
+        out.push(encode(from, to, true));
+        if (!isDeadEnd(color, kind, to)) out.push(encode(from, to, false));
+    }
+
+    generateLegal(): number[] {
+        const out: number[] = [];
+        const us = this.side;
+        for (const m of this.generatePseudoLegal()) {
+            this.makeMove(m);
+            if (!this.inCheck(us)) out.push(m);
+            this.unmakeMove(m);
+        }
+        return out;
+    }
+
+    hasLegalMove(): boolean {
+        const us = this.side;
+        for (const m of this.generatePseudoLegal()) {
+            this.makeMove(m);
+            const ok = !this.inCheck(us);
+            this.unmakeMove(m);
+            if (ok) return true;
+        }
+        return false;
+    }
+
+    // 歩を打って相手玉が詰むか（玉の正面への歩打ちだけが対象）
+    private isUchiFuZume(m: number): boolean {
+        const them = this.side ^ 1;
+        const k = this.kingSq[them];
+        if (k < 0) return false;
+        const front = NEIGHBOR[moveTo(m) * 8 + (this.side === BLACK ? 0 : 5)];
+        if (front !== k) return false;
+        this.makeMove(m);
+        const mated = !this.hasLegalMove();
+        this.unmakeMove(m);
+        return mated;
+    }
+
+    isLegal(m: number): boolean {
+        return this.generateLegal().includes(m);
+    }
+
+    // 葉の数（生成器の検証用）
+    perft(depth: number): number {
+        if (depth === 0) return 1;
+        const moves = this.generateLegal();
+        if (depth === 1) return moves.length;
+        let n = 0;
+        for (const m of moves) {
+            this.makeMove(m);
+            n += this.perft(depth - 1);
+            this.unmakeMove(m);
+        }
+        return n;
+    }
+}
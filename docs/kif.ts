@@ -0,0 +1,818 @@
+// kif.ts
+
+import {
+    Board,
+    Game,
+    GameResult,
+    HANDICAP_NAMES,
+    Hand,
+    Handicap,
+    InitialSetup,
+    KifuNode,
+    Move,
+    Piece,
+    PieceType,
+    Player,
+    Position,
+    Rules,
+    Square,
+    opposite,
+} from "./main.js";
+
+// =====================
+// 表記テーブル
+// =====================
+
+const FILE_ZEN = ["", "１", "２", "３", "４", "５", "６", "７", "８", "９"];
+const RANK_KAN = ["", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+const KAN_DIGITS = ["", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+
+const BASE_NAMES: Record<PieceType, string> = {
+    [PieceType.FU]: "歩",
+    [PieceType.KY]: "香",
+    [PieceType.KE]: "桂",
+    [PieceType.GI]: "銀",
+    [PieceType.KI]: "金",
+    [PieceType.KA]: "角",
+    [PieceType.HI]: "飛",
+    [PieceType.OU]: "玉",
+};
+
+// 指し手中の成駒名（KIF/KI2）
+const PROMOTED_NAMES: Partial<Record<PieceType, string>> = {
+    [PieceType.FU]: "と",
+    [PieceType.KY]: "成香",
+    [PieceType.KE]: "成桂",
+    [PieceType.GI]: "成銀",
+    [PieceType.KA]: "馬",
+    [PieceType.HI]: "龍",
+};
+
+// 盤面図（BOD）の1文字表記
+const PROMOTED_CHARS: Partial<Record<PieceType, string>> = {
+    [PieceType.FU]: "と",
+    [PieceType.KY]: "杏",
+    [PieceType.KE]: "圭",
+    [PieceType.GI]: "全",
+    [PieceType.KA]: "馬",
+    [PieceType.HI]: "龍",
+};
+
+// 読み込み時に受け付ける駒名（別表記を含む）
+const NAME_TO_PIECE: Record<string, { type: PieceType; promoted: boolean }> = {
+    歩: { type: PieceType.FU, promoted: false },
+    香: { type: PieceType.KY, promoted: false },
+    桂: { type: PieceType.KE, promoted: false },
+    銀: { type: PieceType.GI, promoted: false },
+    金: { type: PieceType.KI, promoted: false },
+    角: { type: PieceType.KA, promoted: false },
+    飛: { type: PieceType.HI, promoted: false },
+    玉: { type: PieceType.OU, promoted: false },
+    王: { type: PieceType.OU, promoted: false },
+    と: { type: PieceType.FU, promoted: true },
+    成香: { type: PieceType.KY, promoted: true },
+    杏: { type: PieceType.KY, promoted: true },
+    成桂: { type: PieceType.KE, promoted: true },
+    圭: { type: PieceType.KE, promoted: true },
+    成銀: { type: PieceType.GI, promoted: true },
+    全: { type: PieceType.GI, promoted: true },
+    馬: { type: PieceType.KA, promoted: true },
+    龍: { type: PieceType.HI, promoted: true },
+    竜: { type: PieceType.HI, promoted: true },
+};
+
+const PIECE_NAME_RE = "成香|成桂|成銀|歩|香|桂|銀|金|角|飛|玉|王|と|杏|圭|全|馬|龍|竜";
+const SQUARE_RE = "(?:([１-９1-9])([一二三四五六七八九1-9])|同[\\s　]*)";
+const KIF_MOVE_RE = new RegExp(`^[▲△☗☖]?${SQUARE_RE}(${PIECE_NAME_RE})(不成|成)?(打)?(?:\\((\\d)(\\d)\\))?$`);
+const KI2_MOVE_RE = new RegExp(`^[▲△☗☖]${SQUARE_RE}(${PIECE_NAME_RE})([右左直上引寄]*)(不成|成|打)?$`);
+// 手入力用（手番の記号は省略可、KIF の移動元も KI2 の右・左なども受け付ける）
+const TYPED_MOVE_RE = new RegExp(`^[▲△☗☖]?\\s*${SQUARE_RE}(${PIECE_NAME_RE})([右左直上引寄]*)(不成|成|打)?(?:\\((\\d)(\\d)\\))?$`);
+
+const HAND_ORDER: PieceType[] = [
+    PieceType.HI,
+    PieceType.KA,
+    PieceType.KI,
+    PieceType.GI,
+    PieceType.KE,
+    PieceType.KY,
+    PieceType.FU,
+];
+
+export type KifuRecord = {
+    game: Game;
+    headers: Record<string, string>;
+};
+
+// =====================
+// KIF / KI2
+// =====================
+
+export class Kif {
+    // -------- 書き出し --------
+
+    static exportKif(game: Game, headers: Record<string, string> = {}): string {
+        const initial = game.getInitialPosition();
+        const lines = this.headerLines(initial, headers);
+        lines.push(...game.getRoot().comments.map((c) => `*${c}`));
+        lines.push("手数----指手---------消費時間--");
+
+        this.writeTree(game, lines, (nodes, last) => {
+            for (const node of nodes) {
+                const parent = node.parent!;
+                const siblings = parent.children;
+                const more = siblings.indexOf(node) < siblings.length - 1 ? "+" : "";
+                const move = this.formatKifMove(parent.position, node.move!, parent.move?.to);
+                const time = this.formatTime(node.consumedMs, node.parent?.parent ?? null);
+                lines.push(`${String(node.ply).padStart(4)} ${move}${time ? `   ${time}` : ""}${more}`);
+                lines.push(...node.comments.map((c) => `*${c}`));
+            }
+            const special = this.specialMove(last.result);
+            if (special) {
+                const time = this.formatTime(last.resultConsumedMs, last.parent);
+                lines.push(`${String(last.ply + 1).padStart(4)} ${special}${time ? `   ${time}` : ""}`);
+            }
+        });
+        return lines.join("\n") + "\n";
+    }
+
+    static exportKi2(game: Game, headers: Record<string, string> = {}): string {
+        const initial = game.getInitialPosition();
+        const lines = this.headerLines(initial, headers);
+        lines.push(...game.getRoot().comments.map((c) => `*${c}`));
+
+        this.writeTree(game, lines, (nodes) => {
+            let row: string[] = [];
+            const flush = () => {
+                if (row.length > 0) lines.push(row.join("    "));
+                row = [];
+            };
+            for (const node of nodes) {
+                const parent = node.parent!;
+                const mark = parent.position.turn === "SENTE" ? "▲" : "△";
+                row.push(mark + this.formatKi2Move(parent.position, node.move!, parent.move?.to));
+                if (row.length === 6 || node.comments.length > 0) flush();
+                lines.push(...node.comments.map((c) => `*${c}`));
+            }
+            flush();
+        });
+        return lines.join("\n") + "\n";
+    }
+
+    // 本譜、まとめ行、変化（深い分岐から順に）を書く。読み込み側は「変化：N手」で
+    // 直前に読んだ手順を N-1 手目までさかのぼるので、この順序でないと戻れない
+    private static writeTree(
+        game: Game,
+        lines: string[],
+        emit: (nodes: KifuNode[], last: KifuNode) => void
+    ): void {
+        const main = game.getMainLine();
+        const last = main[main.length - 1] ?? game.getRoot();
+        emit(main, last);
+        const summary = this.resultLine(last.result, last.ply, game.getInitialPosition());
+        if (summary) lines.push(summary);
+        this.writeVariations(main, 0, lines, emit);
+    }
+
+    private static writeVariations(
+        nodes: KifuNode[],
+        from: number,
+        lines: string[],
+        emit: (nodes: KifuNode[], last: KifuNode) => void
+    ): void {
+        for (let i = nodes.length - 1; i >= from; i--) {
+            for (const alt of nodes[i].parent!.children.slice(1)) {
+                if (alt === nodes[i]) continue;
+                const branch = [alt];
+                for (let n = alt.children[0]; n; n = n.children[0]) branch.push(n);
+                lines.push("", `変化：${alt.ply}手`);
+                emit(branch, branch[branch.length - 1]);
+                this.writeVariations(branch, 1, lines, emit);
+            }
+        }
+    }
+
+    // "７六歩(77)" / "同　歩(76)" / "５五角打"
+    static formatKifMove(pos: Position, mv: Move, prev?: Square): string {
+        const dest = this.formatDestination(mv.to, prev, "同　");
+        if (mv.kind === "DROP") return `${dest}${BASE_NAMES[mv.pieceType]}打`;
+
+        const piece = pos.board.get(mv.from);
+        if (!piece) throw new Error("KIF: move from empty square");
+        return `${dest}${this.pieceName(piece)}${this.promotionSuffix(pos, mv)}(${mv.from.file}${mv.from.rank})`;
+    }
+
+    // "７六歩" / "同歩" / "５八金右" / "２二角成"
+    static formatKi2Move(pos: Position, mv: Move, prev?: Square): string {
+        const dest = this.formatDestination(mv.to, prev, "同");
+        if (mv.kind === "DROP") {
+            const needsDrop = Rules.generateLegalMoves(pos).some((m) => {
+                if (m.kind !== "MOVE" || !this.sameSquare(m.to, mv.to)) return false;
+                const p = pos.board.get(m.from);
+                return !!p && p.type === mv.pieceType && !p.promoted;
+            });
+            return `${dest}${BASE_NAMES[mv.pieceType]}${needsDrop ? "打" : ""}`;
+        }
+
+        const piece = pos.board.get(mv.from);
+        if (!piece) throw new Error("KI2: move from empty square");
+        return `${dest}${this.pieceName(piece)}${this.disambiguator(pos, mv)}${this.promotionSuffix(pos, mv)}`;
+    }
+
+    private static formatDestination(to: Square, prev: Square | undefined, same: string): string {
+        if (prev && this.sameSquare(prev, to)) return same;
+        return FILE_ZEN[to.file] + RANK_KAN[to.rank];
+    }
+
+    private static pieceName(p: Piece): string {
+        return p.promoted ? PROMOTED_NAMES[p.type] ?? BASE_NAMES[p.type] : BASE_NAMES[p.type];
+    }
+
+    // 成れるのに成らなかった場合は「不成」を明記する
+    private static promotionSuffix(pos: Position, mv: Extract<Move, { kind: "MOVE" }>): string {
+        if (mv.promote) return "成";
+        const couldPromote = Rules.generateLegalMoves(pos).some(
+            (m) => m.kind === "MOVE" && m.promote && this.sameSquare(m.from, mv.from) && this.sameSquare(m.to, mv.to)
+        );
+        return couldPromote ? "不成" : "";
+    }
+
+    // 右/左/直/上/引/寄（同じ駒が同じマスに複数行ける場合）
+    private static disambiguator(pos: Position, mv: Extract<Move, { kind: "MOVE" }>): string {
+        const piece = pos.board.get(mv.from)!;
+        const group = this.candidateOrigins(pos, mv.to, piece);
+        if (group.length <= 1) return "";
+
+        const own = this.motion(piece.owner, mv.from, mv.to);
+        const others = group.filter((s) => !this.sameSquare(s, mv.from));
+        if (others.every((s) => this.motion(piece.owner, s, mv.to) !== own)) return own;
+
+        // 竜・馬は「直」を使わない
+        const dragonOrHorse = piece.promoted && (piece.type === PieceType.KA || piece.type === PieceType.HI);
+        if (!dragonOrHorse && own === "上" && mv.from.file === mv.to.file) return "直";
+
+        const side = this.sideOf(piece.owner, mv.from, group);
+        if (side) return side;
+
+        const sameMotion = group.filter((s) => this.motion(piece.owner, s, mv.to) === own);
+        return (this.sideOf(piece.owner, mv.from, sameMotion) ?? "") + own;
+    }
+
+    // 指定マスに合法に動ける、同じ種類・成りの自駒の位置
+    private static candidateOrigins(pos: Position, to: Square, piece: Piece): Square[] {
+        const out: Square[] = [];
+        for (const m of Rules.generateLegalMoves(pos)) {
+            if (m.kind !== "MOVE" || !this.sameSquare(m.to, to)) continue;
+            const p = pos.board.get(m.from);
+            if (!p || p.type !== piece.type || p.promoted !== piece.promoted) continue;
+            if (!out.some((s) => this.sameSquare(s, m.from))) out.push(m.from);
+        }
+        return out;
+    }
+
+    private static motion(owner: Player, from: Square, to: Square): "上" | "引" | "寄" {
+        const forward = owner === "SENTE" ? from.rank - to.rank : to.rank - from.rank;
+        return forward > 0 ? "上" : forward < 0 ? "引" : "寄";
+    }
+
+    // 指す側から見て一番右（左）にある駒なら「右」（「左」）
+    private static sideOf(owner: Player, from: Square, group: Square[]): "右" | "左" | undefined {
+        const rightness = (s: Square) => (owner === "SENTE" ? -s.file : s.file);
+        const others = group.filter((s) => !this.sameSquare(s, from));
+        if (others.length === 0) return undefined;
+        if (others.every((s) => rightness(s) < rightness(from))) return "右";
+        if (others.every((s) => rightness(s) > rightness(from))) return "左";
+        return undefined;
+    }
+
+    // "( 0:12/00:03:45)" この手の消費時間 / 指した側の累計。消費時間のない手があれば書かない
+    // previous は同じ側が前に指した手の節点
+    private static formatTime(consumedMs: number | undefined, previous: KifuNode | null): string | undefined {
+        if (consumedMs === undefined) return undefined;
+        const sec = Math.floor(consumedMs / 1000);
+        let total = sec;
+        for (let n = previous; n && n.move; n = n.parent?.parent ?? null) {
+            if (n.consumedMs === undefined) return undefined;
+            total += Math.floor(n.consumedMs / 1000);
+        }
+        const two = (v: number) => String(v).padStart(2, "0");
+        const move = `${String(Math.floor(sec / 60)).padStart(2)}:${two(sec % 60)}`;
+        const sum = `${two(Math.floor(total / 3600))}:${two(Math.floor(total / 60) % 60)}:${two(total % 60)}`;
+        return `(${move}/${sum})`;
+    }
+
+    private static headerLines(initial: Position, headers: Record<string, string>): string[] {
+        const lines: string[] = [];
+        const handicap = this.handicapName(initial);
+        // 渡された順のまま。手合割は局面から決めた値にする（なければ最後に足す）
+        const merged: Record<string, string> = { ...headers };
+        if (handicap) merged.手合割 = handicap;
+        for (const [k, v] of Object.entries(merged)) lines.push(`${k}：${v}`);
+        if (!handicap) lines.push(...this.formatBod(initial));
+        return lines;
+    }
+
+    private static specialMove(result: GameResult): string | undefined {
+        switch (result.kind) {
+            case "RESIGN":
+                return "投了";
+            case "CHECKMATE":
+                return "詰み";
+            case "ILLEGAL_MOVE":
+            case "DECLARATION_FAIL":
+                return "反則負け";
+            case "DRAW_REPETITION":
+            case "PERPETUAL_CHECK":
+                return "千日手";
+            case "DECLARATION_WIN":
+                return "入玉勝ち";
+            case "DRAW_IMPASSE":
+                return "持将棋";
+            case "TIME_LOSS":
+                return "切れ負け";
+            default:
+                return undefined;
+        }
+    }
+
+    private static resultLine(result: GameResult, n: number, initial: Position): string | undefined {
+        const isHandicap = this.isHandicapPosition(initial);
+        switch (result.kind) {
+            case "RESIGN":
+            case "CHECKMATE":
+                return `まで${n}手で${this.playerLabel(result.winner, isHandicap)}の勝ち`;
+            case "ILLEGAL_MOVE":
+            case "PERPETUAL_CHECK":
+            case "DECLARATION_FAIL":
+                return `まで${n}手で${this.playerLabel(result.loser, isHandicap)}の反則負け`;
+            case "DECLARATION_WIN":
+                return `まで${n}手で${this.playerLabel(result.winner, isHandicap)}の入玉勝ち`;
+            case "DRAW_REPETITION":
+                return `まで${n}手で千日手`;
+            case "DRAW_IMPASSE":
+                return `まで${n}手で持将棋`;
+            case "DRAW_AGREEMENT":
+                return `まで${n}手で引き分け`;
+            case "TIME_LOSS":
+                return `まで${n}手で${this.playerLabel(result.loser, isHandicap)}の切れ負け`;
+            default:
+                return undefined;
+        }
+    }
+
+    private static playerLabel(p: Player, handicap: boolean): string {
+        if (handicap) return p === "SENTE" ? "下手" : "上手";
+        return p === "SENTE" ? "先手" : "後手";
+    }
+
+    // -------- 盤面図（BOD） --------
+
+    static formatBod(pos: Position): string[] {
+        const lines: string[] = [];
+        lines.push(`後手の持駒：${this.formatHand(pos.hand, "GOTE")}`);
+        lines.push("  ９ ８ ７ ６ ５ ４ ３ ２ １");
+        lines.push("+---------------------------+");
+        for (let rank = 1; rank <= 9; rank++) {
+            let row = "|";
+            for (let file = 9; file >= 1; file--) {
+                const p = pos.board.get({ file, rank });
+                if (!p) {
+                    row += " ・";
+                    continue;
+                }
+                const ch = p.promoted ? PROMOTED_CHARS[p.type] ?? BASE_NAMES[p.type] : BASE_NAMES[p.type];
+                row += (p.owner === "GOTE" ? "v" : " ") + ch;
+            }
+            lines.push(`${row}|${RANK_KAN[rank]}`);
+        }
+        lines.push("+---------------------------+");
+        lines.push(`先手の持駒：${this.formatHand(pos.hand, "SENTE")}`);
+        if (pos.turn === "GOTE") lines.push("後手番");
+        return lines;
+    }
+
+    private static formatHand(h: Hand, owner: Player): string {
+        const parts: string[] = [];
+        for (const t of HAND_ORDER) {
+            const n = h.get(owner, t);
+            if (n <= 0) continue;
+            parts.push(BASE_NAMES[t] + (n > 1 ? this.kanjiNumber(n) : ""));
+        }
+        return parts.length === 0 ? "なし" : parts.join("　");
+    }
+
+    private static kanjiNumber(n: number): string {
+        if (n < 10) return KAN_DIGITS[n];
+        return "十" + KAN_DIGITS[n - 10];
+    }
+
+    private static parseKanjiNumber(s: string): number {
+        if (s === "") return 1;
+        if (s.startsWith("十")) return 10 + (s.length > 1 ? KAN_DIGITS.indexOf(s[1]) : 0);
+        const n = KAN_DIGITS.indexOf(s);
+        return n > 0 ? n : NaN;
+    }
+
+    // -------- 手合割 --------
+
+    private static handicapName(pos: Position): string | undefined {
+        const h = InitialSetup.detectHandicap(pos);
+        return h ? HANDICAP_NAMES[h] : undefined;
+    }
+
+    private static isHandicapPosition(pos: Position): boolean {
+        const h = InitialSetup.detectHandicap(pos);
+        return h !== undefined && h !== Handicap.HIRATE;
+    }
+
+    private static handicapPosition(name: string): Position | undefined {
+        const h = InitialSetup.fromHandicapName(name);
+        return h ? InitialSetup.handicap(h) : undefined;
+    }
+
+    // -------- 読み込み --------
+
+    // KIF と KI2 のどちらも受け付ける（変化・コメントを含む）
+    static parse(text: string): KifuRecord {
+        const headers: Record<string, string> = {};
+        const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+
+        let initial: Position | undefined;
+        let bodRows: string[] = [];
+        let bodHands: Partial<Record<Player, string>> = {};
+        let bodTurn: Player = "SENTE";
+        let game: Game | undefined;
+        let finished = false;
+        const rootComments: string[] = [];
+
+        const start = (lineNo: number): Game => {
+            if (game) return game;
+            if (bodRows.length > 0) {
+                initial = this.parseBod(bodRows, bodHands, bodTurn, lineNo);
+                // 詰将棋の局面図（攻め方の玉なし）も受け付ける
+                const problems = Rules.validatePosition(initial, { tsume: true });
+                if (problems.length > 0) {
+                    throw new Error(`KIF line ${lineNo}: invalid initial position (${problems.map((p) => p.kind).join(", ")})`);
+                }
+            }
+            game = new Game(initial ?? InitialSetup.standard());
+            game.getRoot().comments.push(...rootComments);
+            return game;
+        };
+        const prev = (g: Game): Square | undefined => g.getCurrentNode().move?.to;
+
+        for (let i = 0; i < lines.length; i++) {
+            const lineNo = i + 1;
+            const line = lines[i].trim();
+            if (line === "" || line.startsWith("#") || line.startsWith("&")) continue;
+
+            // コメントは直前の手（手より前なら開始局面）に付ける
+            if (line.startsWith("*")) {
+                const comment = lines[i].replace(/^\s*\*/, "");
+                if (game) game.getCurrentNode().comments.push(comment);
+                else rootComments.push(comment);
+                continue;
+            }
+
+            // 変化：直前に読んだ手順を N-1 手目までさかのぼって分岐する
+            const variation = /^変化：\s*(\d+)手/.exec(line);
+            if (variation) {
+                const g = start(lineNo);
+                const ply = Number(variation[1]);
+                let node = g.getCurrentNode();
+                while (node.ply > ply - 1 && node.parent) node = node.parent;
+                if (node.ply !== ply - 1) throw new Error(`KIF line ${lineNo}: no move ${ply - 1} to branch from`);
+                g.goTo(node);
+                finished = false;
+                continue;
+            }
+            if (finished) continue;
+
+            const handLine = /^(先手|後手|下手|上手)の持駒：(.*)$/.exec(line);
+            if (handLine) {
+                const owner: Player = handLine[1] === "先手" || handLine[1] === "下手" ? "SENTE" : "GOTE";
+                bodHands[owner] = handLine[2];
+                continue;
+            }
+            if (line.startsWith("|")) {
+                bodRows.push(line);
+                continue;
+            }
+            if (line.startsWith("+") || /^[９9]\s*[８8]/.test(line) || line.startsWith("手数")) continue;
+            if (line === "後手番" || line === "上手番") {
+                bodTurn = "GOTE";
+                continue;
+            }
+            if (line === "先手番" || line === "下手番") {
+                bodTurn = "SENTE";
+                continue;
+            }
+
+            if (line.startsWith("まで")) {
+                this.applyResultLine(start(lineNo), line, lineNo);
+                finished = true;
+                continue;
+            }
+
+            const time = /\(\s*(\d+):(\d+)(?:\/[\d:]+)?\s*\)\s*\+?\s*$/.exec(line);
+            const kifMove = /^(\d+)\s+(\S+(?:[\s　]\S+)?)/.exec((time ? line.slice(0, time.index) : line).trim());
+            if (kifMove) {
+                const g = start(lineNo);
+                const token = kifMove[2].replace(/\+$/, "").trim();
+                if (this.applySpecialMove(g, token)) {
+                    if (time) g.getCurrentNode().resultConsumedMs = (Number(time[1]) * 60 + Number(time[2])) * 1000;
+                    finished = true;
+                    continue;
+                }
+                const mv = this.parseKifToken(g.pos, token, prev(g), lineNo);
+                this.playChecked(g, mv, token, lineNo);
+                if (time) g.getCurrentNode().consumedMs = (Number(time[1]) * 60 + Number(time[2])) * 1000;
+                continue;
+            }
+
+            if (/^[▲△☗☖]/.test(line)) {
+                const g = start(lineNo);
+                const tokens = line.replace(/同[\s　]+/g, "同").match(/[▲△☗☖][^▲△☗☖\s　]+/g) ?? [];
+                for (const token of tokens) {
+                    const mv = this.parseKi2Token(g.pos, token, prev(g), lineNo);
+                    this.playChecked(g, mv, token, lineNo);
+                }
+                continue;
+            }
+
+            const header = /^([^：]+)：(.*)$/.exec(line);
+            if (header) {
+                const [, key, value] = header;
+                headers[key] = value.trim();
+                if (key === "手合割") {
+                    const pos = this.handicapPosition(value.trim());
+                    if (!pos) throw new Error(`KIF line ${lineNo}: unknown handicap "${value.trim()}"`);
+                    initial = pos;
+                }
+                continue;
+            }
+
+            throw new Error(`KIF line ${lineNo}: unrecognized line "${line}"`);
+        }
+
+        // 読み込み後は本譜の最後の局面にしておく
+        const g = start(lines.length);
+        const main = g.getMainLine();
+        g.goTo(main[main.length - 1] ?? g.getRoot());
+        return { game: g, headers };
+    }
+
+    private static playChecked(game: Game, mv: Move, token: string, lineNo: number): void {
+        if (game.getResult().kind !== "ONGOING") {
+            throw new Error(`KIF line ${lineNo}: move "${token}" after the game has ended`);
+        }
+        if (!Rules.isLegal(game.pos, mv)) throw new Error(`KIF line ${lineNo}: illegal move "${token}"`);
+        game.play(mv);
+    }
+
+    private static parseKifToken(pos: Position, token: string, prev: Square | undefined, lineNo: number): Move {
+        const m = KIF_MOVE_RE.exec(token);
+        if (!m) throw new Error(`KIF line ${lineNo}: malformed move "${token}"`);
+        const [, fileCh, rankCh, name, promo, dropMark, fromFile, fromRank] = m;
+        const to = this.parseDestination(fileCh, rankCh, prev, token, lineNo);
+        const named = NAME_TO_PIECE[name];
+
+        if (dropMark) {
+            if (named.promoted) throw new Error(`KIF line ${lineNo}: cannot drop a promoted piece "${token}"`);
+            return { kind: "DROP", pieceType: named.type, to };
+        }
+        if (!fromFile) throw new Error(`KIF line ${lineNo}: missing source square in "${token}"`);
+
+        const from = { file: Number(fromFile), rank: Number(fromRank) };
+        const p = pos.board.get(from);
+        if (!p || p.type !== named.type || p.promoted !== named.promoted) {
+            throw new Error(`KIF line ${lineNo}: "${token}" does not match the piece on ${fromFile}${fromRank}`);
+        }
+        return promo === "成" ? { kind: "MOVE", from, to, promote: true } : { kind: "MOVE", from, to };
+    }
+
+    private static parseKi2Token(pos: Position, token: string, prev: Square | undefined, lineNo: number): Move {
+        const m = KI2_MOVE_RE.exec(token);
+        if (!m) throw new Error(`KI2 line ${lineNo}: malformed move "${token}"`);
+        const [, fileCh, rankCh, name, modifiers, suffix] = m;
+        const to = this.parseDestination(fileCh, rankCh, prev, token, lineNo);
+        const candidates = this.ki2Candidates(pos, to, NAME_TO_PIECE[name], modifiers, suffix, true);
+        if (candidates.length === 0) throw new Error(`KI2 line ${lineNo}: illegal move "${token}"`);
+        if (candidates.length > 1) throw new Error(`KI2 line ${lineNo}: ambiguous move "${token}"`);
+        return candidates[0];
+    }
+
+    // 手入力の指し手（"76歩" "同歩成" "７六歩(77)" "▲５八金右"）に合う合法手。
+    // 成・不成を書かずに両方指せるときは2手とも返すので、呼び出し側で選ばせる
+    static resolveMoveText(pos: Position, text: string, prev?: Square): Move[] {
+        const m = TYPED_MOVE_RE.exec(text.trim());
+        if (!m) throw new Error(`KIF: malformed move "${text}"`);
+        const [, fileCh, rankCh, name, modifiers, suffix, fromFile, fromRank] = m;
+        const to = this.parseDestination(fileCh, rankCh, prev, text, 1);
+        const candidates = this.ki2Candidates(pos, to, NAME_TO_PIECE[name], modifiers, suffix, false);
+        if (!fromFile) return candidates;
+        return candidates.filter((mv) => mv.kind === "MOVE" && mv.from.file === Number(fromFile) && mv.from.rank === Number(fromRank));
+    }
+
+    // strictPromotion なら成・不成の書いていない手は不成（KI2 の書き方）、そうでなければどちらでもよい
+    private static ki2Candidates(
+        pos: Position,
+        to: Square,
+        named: { type: PieceType; promoted: boolean },
+        modifiers: string,
+        suffix: string | undefined,
+        strictPromotion: boolean
+    ): Move[] {
+        const promote = suffix === "成";
+        const legal = Rules.generateLegalMoves(pos);
+        let candidates = legal.filter((mv) => {
+            if (!this.sameSquare(mv.to, to)) return false;
+            if (mv.kind === "DROP") return !named.promoted && mv.pieceType === named.type;
+            const p = pos.board.get(mv.from);
+            if (!p || p.type !== named.type || p.promoted !== named.promoted) return false;
+            return strictPromotion || suffix === "成" || suffix === "不成" ? !!mv.promote === promote : true;
+        });
+
+        // 「打」がなければ盤上の駒を優先（盤上に候補がないときだけ打ちとみなす）
+        const boardMoves = candidates.filter((mv) => mv.kind === "MOVE");
+        if (suffix === "打") candidates = candidates.filter((mv) => mv.kind === "DROP");
+        else if (boardMoves.length > 0) candidates = boardMoves;
+
+        for (const ch of modifiers) {
+            if (ch === "上" || ch === "引" || ch === "寄") {
+                candidates = candidates.filter((mv) => mv.kind === "MOVE" && this.motion(pos.turn, mv.from, to) === ch);
+            }
+        }
+        if (modifiers.includes("直")) {
+            candidates = candidates.filter(
+                (mv) => mv.kind === "MOVE" && mv.from.file === to.file && this.motion(pos.turn, mv.from, to) === "上"
+            );
+        }
+        if (modifiers.includes("右") || modifiers.includes("左")) {
+            const side = modifiers.includes("右") ? "右" : "左";
+            const origins = candidates.filter((mv): mv is Extract<Move, { kind: "MOVE" }> => mv.kind === "MOVE").map((mv) => mv.from);
+            candidates = candidates.filter(
+                (mv) => mv.kind === "MOVE" && this.sideOf(pos.turn, mv.from, origins) === side
+            );
+        }
+        return candidates;
+    }
+
+    private static parseDestination(
+        fileCh: string | undefined,
+        rankCh: string | undefined,
+        prev: Square | undefined,
+        token: string,
+        lineNo: number
+    ): Square {
+        if (fileCh === undefined || rankCh === undefined) {
+            if (!prev) throw new Error(`KIF line ${lineNo}: "同" without a previous move in "${token}"`);
+            return prev;
+        }
+        const file = /[1-9]/.test(fileCh) ? Number(fileCh) : FILE_ZEN.indexOf(fileCh);
+        const rank = /[1-9]/.test(rankCh) ? Number(rankCh) : RANK_KAN.indexOf(rankCh);
+        return { file, rank };
+    }
+
+    // 投了などの特殊な手。処理したら true（千日手・詰みなど指し手から判定済みの結果は優先）
+    private static applySpecialMove(game: Game, token: string): boolean {
+        const turn = game.pos.turn;
+        const decided = game.getResult().kind !== "ONGOING";
+        switch (token) {
+            case "投了":
+                game.resign(turn);
+                return true;
+            case "詰み":
+                if (!decided) game.setResult({ kind: "CHECKMATE", winner: opposite(turn) });
+                return true;
+            case "反則負け":
+                if (!decided) game.setResult({ kind: "ILLEGAL_MOVE", loser: turn });
+                return true;
+            case "反則勝ち":
+                if (!decided) game.setResult({ kind: "ILLEGAL_MOVE", loser: opposite(turn) });
+                return true;
+            case "千日手":
+                if (!decided) game.setResult({ kind: "DRAW_REPETITION" });
+                return true;
+            case "持将棋":
+                if (!decided) game.setResult({ kind: "DRAW_IMPASSE" });
+                return true;
+            case "入玉勝ち":
+                if (!decided) game.setResult({ kind: "DECLARATION_WIN", winner: turn });
+                return true;
+            case "切れ負け":
+                if (!decided) game.setResult({ kind: "TIME_LOSS", loser: turn });
+                return true;
+            case "中断":
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    // 「まで76手で後手の勝ち」など。特殊な手で結果が決まっていなければここで決める
+    private static applyResultLine(game: Game, line: string, lineNo: number): void {
+        if (game.getResult().kind !== "ONGOING") return;
+
+        const win = /^まで(\d+)手で(先手|後手|下手|上手)の(勝ち|反則勝ち|反則負け)/.exec(line);
+        if (win) {
+            const p: Player = win[2] === "先手" || win[2] === "下手" ? "SENTE" : "GOTE";
+            if (win[3] === "反則負け") {
+                game.setResult({ kind: "ILLEGAL_MOVE", loser: p });
+            } else if (win[3] === "反則勝ち") {
+                game.setResult({ kind: "ILLEGAL_MOVE", loser: opposite(p) });
+            } else if (this.isCheckmated(game.pos) && game.pos.turn === opposite(p)) {
+                game.setResult({ kind: "CHECKMATE", winner: p });
+            } else {
+                game.resign(opposite(p));
+            }
+            return;
+        }
+
+        const timeUp = /^まで(\d+)手で(先手|後手|下手|上手)の切れ負け/.exec(line);
+        if (timeUp) {
+            const p: Player = timeUp[2] === "先手" || timeUp[2] === "下手" ? "SENTE" : "GOTE";
+            game.setResult({ kind: "TIME_LOSS", loser: p });
+            return;
+        }
+        // 「まで64手で時間切れにより先手の勝ち」
+        const timeWin = /^まで(\d+)手で時間切れにより(先手|後手|下手|上手)の勝ち/.exec(line);
+        if (timeWin) {
+            const p: Player = timeWin[2] === "先手" || timeWin[2] === "下手" ? "SENTE" : "GOTE";
+            game.setResult({ kind: "TIME_LOSS", loser: opposite(p) });
+            return;
+        }
+
+        const declared = /^まで(\d+)手で(先手|後手|下手|上手)の入玉勝ち/.exec(line);
+        if (declared) {
+            const p: Player = declared[2] === "先手" || declared[2] === "下手" ? "SENTE" : "GOTE";
+            game.setResult({ kind: "DECLARATION_WIN", winner: p });
+            return;
+        }
+        if (/^まで(\d+)手で千日手/.test(line)) {
+            game.setResult({ kind: "DRAW_REPETITION" });
+            return;
+        }
+        if (/^まで(\d+)手で持将棋/.test(line)) {
+            game.setResult({ kind: "DRAW_IMPASSE" });
+            return;
+        }
+        if (/^まで(\d+)手で引き分け/.test(line)) {
+            game.setResult({ kind: "DRAW_AGREEMENT" });
+            return;
+        }
+        if (/^まで(\d+)手で詰み/.test(line)) {
+            game.setResult({ kind: "CHECKMATE", winner: opposite(game.pos.turn) });
+            return;
+        }
+        if (/^まで(\d+)手で/.test(line)) return; // 中断など
+        throw new Error(`KIF line ${lineNo}: unrecognized result "${line}"`);
+    }
+
+    private static isCheckmated(pos: Position): boolean {
+        return Rules.isKingInCheck(pos, pos.turn) && Rules.generateLegalMoves(pos).length === 0;
+    }
+
+    private static parseBod(
+        rows: string[],
+        hands: Partial<Record<Player, string>>,
+        turn: Player,
+        lineNo: number
+    ): Position {
+        if (rows.length !== 9) throw new Error(`KIF line ${lineNo}: board diagram must have 9 ranks`);
+        const board = new Board();
+        rows.forEach((row, i) => {
+            const body = /^\|(.*)\|/.exec(row)?.[1] ?? "";
+            const cells = Array.from(body);
+            if (cells.length !== 18) throw new Error(`KIF line ${lineNo}: malformed board row "${row}"`);
+            for (let c = 0; c < 9; c++) {
+                const mark = cells[c * 2];
+                const ch = cells[c * 2 + 1];
+                if (ch === "・") continue;
+                const named = NAME_TO_PIECE[ch];
+                if (!named) throw new Error(`KIF line ${lineNo}: unknown piece "${ch}" in board diagram`);
+                const owner: Player = mark === "v" ? "GOTE" : "SENTE";
+                board.set({ file: 9 - c, rank: i + 1 }, new Piece(owner, named.type, named.promoted));
+            }
+        });
+
+        const hand = new Hand();
+        for (const owner of ["SENTE", "GOTE"] as const) {
+            const text = (hands[owner] ?? "").trim();
+            if (text === "" || text === "なし") continue;
+            for (const part of text.split(/[\s　]+/)) {
+                if (part === "") continue;
+                const named = NAME_TO_PIECE[part[0]];
+                const n = this.parseKanjiNumber(part.slice(1));
+                if (!named || named.promoted || named.type === PieceType.OU || Number.isNaN(n)) {
+                    throw new Error(`KIF line ${lineNo}: malformed hand "${part}"`);
+                }
+                hand.add(owner, named.type, n);
+            }
+        }
+        return new Position(board, hand, turn);
+    }
+
+    private static sameSquare(a: Square, b: Square): boolean {
+        return a.file === b.file && a.rank === b.rank;
+    }
+}
@@ -178,13 +178,89 @@ export class Position {
     clone(): Position {
         return new Position(this.board.clone(), this.hand.clone(), this.turn);
     }
+
+    // 同一局面判定用のキー（盤面・持ち駒・手番）
+    key(): string {
+        let s = this.turn === "SENTE" ? "b:" : "w:";
+        for (let rank = 1; rank <= 9; rank++) {
+            for (let file = 9; file >= 1; file--) {
+                const p = this.board.get({ file, rank });
+                s += p ? `${p.owner === "SENTE" ? "+" : "-"}${p.promoted ? "*" : ""}${p.type}` : ".";
+            }
+        }
+        for (const pl of ["SENTE", "GOTE"] as const) {
+            s += pl === "SENTE" ? ":" : "/";
+            for (const t of Object.values(PieceType)) s += this.hand.get(pl, t);
+        }
+        return s;
+    }
 }
 
 // =====================
 // ルール（まずは骨格）
 // =====================
 
-// Rules に追記（または置換）してください
+// 反則の理由
+export type IllegalReason =
+    | "OUT_OF_BOARD" // 盤外
+    | "EMPTY_SOURCE" // 移動元に駒がない
+    | "NOT_OWN_PIECE" // 相手の駒を動かした
+    | "UNREACHABLE" // その駒では行けないマス
+    | "OWN_PIECE_ON_TARGET" // 移動先に自駒
+    | "CANNOT_PROMOTE" // 成れない駒（金・玉・成駒）
+    | "PROMOTION_OUTSIDE_ZONE" // 敵陣に関係しない成り
+    | "PROMOTION_REQUIRED" // 行き所のない不成
+    | "NOT_IN_HAND" // 持ち駒にない
+    | "SQUARE_OCCUPIED" // 駒のあるマスに打った
+    | "DEAD_DROP" // 行き所のない駒を打った
+    | "NIFU" // 二歩
+    | "UCHIFUZUME" // 打ち歩詰め
+    | "LEAVES_KING_IN_CHECK"; // 王手放置・自殺手
+
+export const ILLEGAL_REASON_LABELS: Record<IllegalReason, string> = {
+    OUT_OF_BOARD: "盤外への指し手",
+    EMPTY_SOURCE: "移動元に駒がありません",
+    NOT_OWN_PIECE: "相手の駒は動かせません",
+    UNREACHABLE: "その駒はそこへ動けません",
+    OWN_PIECE_ON_TARGET: "自分の駒がある場所には動けません",
+    CANNOT_PROMOTE: "その駒は成れません",
+    PROMOTION_OUTSIDE_ZONE: "敵陣の外では成れません",
+    PROMOTION_REQUIRED: "行き所のない駒は成らなければなりません",
+    NOT_IN_HAND: "その駒は持ち駒にありません",
+    SQUARE_OCCUPIED: "駒のある場所には打てません",
+    DEAD_DROP: "行き所のない駒は打てません",
+    NIFU: "二歩",
+    UCHIFUZUME: "打ち歩詰め",
+    LEAVES_KING_IN_CHECK: "王手を放置しています",
+};
+
+// 局面そのものの不備（Rules.validatePosition）
+export type PositionProblem =
+    | { kind: "NO_KING"; owner: Player }
+    | { kind: "DUPLICATE_KING"; owner: Player }
+    | { kind: "KING_IN_HAND"; owner: Player }
+    | { kind: "TOO_MANY_PIECES"; pieceType: PieceType; count: number; max: number } // 盤上・持ち駒・成駒の合計
+    | { kind: "NIFU"; owner: Player; file: number }
+    | { kind: "DEAD_PIECE"; square: Square } // 二度と動けない歩・香・桂
+    | { kind: "INVALID_PROMOTION"; square: Square } // 成った金・玉
+    | { kind: "OPPONENT_IN_CHECK" }; // 手番でない側が王手されている
+
+export type PositionValidationOptions = {
+    // 詰将棋: 手番側（攻め方）の玉はなくてよい
+    tsume?: boolean;
+};
+
+// 一組の駒数
+const PIECE_SET: Record<PieceType, number> = {
+    [PieceType.FU]: 18,
+    [PieceType.KY]: 4,
+    [PieceType.KE]: 4,
+    [PieceType.GI]: 4,
+    [PieceType.KI]: 4,
+    [PieceType.KA]: 2,
+    [PieceType.HI]: 2,
+    [PieceType.OU]: 2,
+};
 
 export class Rules {
     // --- 既存 ---
@@ -220,12 +296,95 @@ export class Rules {
         return legal;
     }
 
-    // “今は簡易合法”だった isLegal も、生成した手を使えば一致させられます
+    // validateMove と generateLegalMoves は同じ判定になる
     static isLegal(pos: Position, mv: Move): boolean {
-        return this.generateLegalMoves(pos).some((m) => this.sameMove(m, mv));
+        return this.validateMove(pos, mv) === null;
+    }
+
+    // =========================
+    // 局面の検証
+    // =========================
+    // 問題をすべて返す（なければ空配列）。玉がないときも例外にはしない
+    static validatePosition(pos: Position, options: PositionValidationOptions = {}): PositionProblem[] {
+        const problems: PositionProblem[] = [];
+        const counts = Hand.emptyCounts();
+        const kings: Record<Player, number> = { SENTE: 0, GOTE: 0 };
+        const pawns: Record<Player, number[]> = { SENTE: new Array(10).fill(0), GOTE: new Array(10).fill(0) };
+
+        for (const { square, piece } of pos.board.entries()) {
+            counts[piece.type]++;
+            if (piece.type === PieceType.OU) kings[piece.owner]++;
+            if (piece.promoted && !this.canPromoteType(piece.type)) problems.push({ kind: "INVALID_PROMOTION", square });
+            if (!piece.promoted && this.isPromotionMandatory(piece.owner, piece.type, square.rank)) {
+                problems.push({ kind: "DEAD_PIECE", square });
+            }
+            if (piece.type === PieceType.FU && !piece.promoted) pawns[piece.owner][square.file]++;
+        }
+
+        for (const owner of ["SENTE", "GOTE"] as const) {
+            for (let file = 1; file <= 9; file++) {
+                if (pawns[owner][file] > 1) problems.push({ kind: "NIFU", owner, file });
+            }
+            for (const t of Object.values(PieceType)) counts[t] += pos.hand.get(owner, t);
+            if (pos.hand.get(owner, PieceType.OU) > 0) problems.push({ kind: "KING_IN_HAND", owner });
+            if (kings[owner] > 1) problems.push({ kind: "DUPLICATE_KING", owner });
+            if (kings[owner] === 0 && !(options.tsume && owner === pos.turn)) problems.push({ kind: "NO_KING", owner });
+        }
+        for (const t of Object.values(PieceType)) {
+            if (counts[t] > PIECE_SET[t]) problems.push({ kind: "TOO_MANY_PIECES", pieceType: t, count: counts[t], max: PIECE_SET[t] });
+        }
+
+        // 玉が2枚以上あるときはどちらを見るか決まらないので判定しない
+        const waiting = opposite(pos.turn);
+        if (kings[waiting] === 1 && this.isKingInCheck(pos, waiting)) problems.push({ kind: "OPPONENT_IN_CHECK" });
+        return problems;
     }
 
-    private static sameMove(a: Move, b: Move): boolean {
+    // =========================
+    // 指し手の検証（反則の理由つき）
+    // =========================
+    // 合法なら null、反則なら理由コードを返す
+    static validateMove(pos: Position, mv: Move): IllegalReason | null {
+        const b = pos.board;
+        if (!b.isInside(mv.to)) return "OUT_OF_BOARD";
+
+        if (mv.kind === "DROP") {
+            if (mv.pieceType === PieceType.OU || pos.hand.get(pos.turn, mv.pieceType) <= 0) return "NOT_IN_HAND";
+            if (b.get(mv.to)) return "SQUARE_OCCUPIED";
+            if (!this.isDropAllowedByRank(pos.turn, mv.pieceType, mv.to.rank)) return "DEAD_DROP";
+            if (mv.pieceType === PieceType.FU && this.hasPawnOnFile(pos, pos.turn, mv.to.file)) return "NIFU";
+            if (this.leavesKingInCheck(pos, mv)) return "LEAVES_KING_IN_CHECK";
+            if (mv.pieceType === PieceType.FU && this.isUchiFuZume(pos, mv)) return "UCHIFUZUME";
+            return null;
+        }
+
+        if (!b.isInside(mv.from)) return "OUT_OF_BOARD";
+        const piece = b.get(mv.from);
+        if (!piece) return "EMPTY_SOURCE";
+        if (piece.owner !== pos.turn) return "NOT_OWN_PIECE";
+        const dst = b.get(mv.to);
+        if (dst && dst.owner === piece.owner) return "OWN_PIECE_ON_TARGET";
+        const tos = this.generateDestinationsForPiece(pos, mv.from, piece);
+        if (!tos.some((to) => to.file === mv.to.file && to.rank === mv.to.rank)) return "UNREACHABLE";
+
+        if (mv.promote) {
+            if (!this.canPromoteType(piece.type) || piece.promoted) return "CANNOT_PROMOTE";
+            const inZone = this.isPromotionZone(piece.owner, mv.from.rank) || this.isPromotionZone(piece.owner, mv.to.rank);
+            if (!inZone) return "PROMOTION_OUTSIDE_ZONE";
+        } else if (!piece.promoted && this.isPromotionMandatory(piece.owner, piece.type, mv.to.rank)) {
+            return "PROMOTION_REQUIRED";
+        }
+
+        if (this.leavesKingInCheck(pos, mv)) return "LEAVES_KING_IN_CHECK";
+        return null;
+    }
+
+    private static leavesKingInCheck(pos: Position, mv: Move): boolean {
+        const next = Game.applyMove(pos, mv);
+        return this.isKingInCheck(next, pos.turn);
+    }
+
+    static sameMove(a: Move, b: Move): boolean {
         if (a.kind !== b.kind) return false;
         if (a.kind === "MOVE" && b.kind === "MOVE") {
             return (
@@ -279,13 +438,7 @@ export class Rules {
                     // 二歩禁止
                     if (t === PieceType.FU && this.hasPawnOnFile(pos, pos.turn, file)) continue;
 
-                    // TODO: 打ち歩詰め（禁止）判定
-                    // generatePseudoLegalMoves() の DROP 生成内
-
-                    // 二歩禁止
-                    if (t === PieceType.FU && this.hasPawnOnFile(pos, pos.turn, file)) continue;
-
-                    // 打ち歩詰め禁止（追加）
+                    // 打ち歩詰め禁止
                     if (t === PieceType.FU && this.isUchiFuZume(pos, { kind: "DROP", pieceType: PieceType.FU, to })) continue;
 
                     moves.push({ kind: "DROP", pieceType: t, to });
@@ -318,7 +471,8 @@ export class Rules {
         pos: Position,
         from: Square,
         piece: Piece,
-        allowCaptureKing: boolean = false
+        allowCaptureKing: boolean = false,
+        includeOwn: boolean = false // 自駒のいるマス（守っているマス）も含める
     ): Square[] {
         const b = pos.board;
         const res: Square[] = [];
@@ -328,7 +482,7 @@ export class Rules {
             const to = { file: from.file + df, rank: from.rank + dr };
             if (!b.isInside(to)) return;
             const dst = b.get(to);
-            if (dst && dst.owner === piece.owner) return; // 自駒は不可
+            if (dst && dst.owner === piece.owner && !includeOwn) return; // 自駒は不可
             if (dst && dst.type === PieceType.OU && !allowCaptureKing) return; // 王は取れない
             res.push(to);
         };
@@ -347,6 +501,8 @@ export class Rules {
                         if (!(dst.type === PieceType.OU && !allowCaptureKing)) {
                             res.push(to); // 相手駒は取れる
                         }
+                    } else if (includeOwn) {
+                        res.push(to);
                     }
                     break; // 駒で遮断
                 }
@@ -527,12 +683,18 @@ export class Rules {
     // =========================
     // 王手判定（攻撃されているか）
     // =========================
+    // 玉がない側（詰将棋の攻め方など）は王手されようがないので false
     static isKingInCheck(pos: Position, kingOwner: Player): boolean {
         const kingSq = this.findKing(pos, kingOwner);
-        if (!kingSq) throw new Error("King not found");
+        if (!kingSq) return false;
         return this.isSquareAttacked(pos, kingSq, opposite(kingOwner));
     }
 
+    // 手番側に合法手がなく、かつ王手されている
+    static isCheckmate(pos: Position): boolean {
+        return this.isKingInCheck(pos, pos.turn) && this.generateLegalMoves(pos).length === 0;
+    }
+
     private static findKing(pos: Position, owner: Player): Square | null {
         for (const { square, piece } of pos.board.entries()) {
             if (piece.owner === owner && piece.type === PieceType.OU) return square;
@@ -540,6 +702,23 @@ export class Rules {
         return null;
     }
 
+    // from の駒が利いているマス（自駒のいるマス = 守っているマスと、相手の玉のマスも含む）
+    static attacksFrom(pos: Position, from: Square): Square[] {
+        const piece = pos.board.get(from);
+        if (!piece) return [];
+        return this.generateDestinationsForPiece(pos, from, piece, true, true);
+    }
+
+    // attacker 側で target に利いている駒のマス
+    static attackersOf(pos: Position, target: Square, attacker: Player): Square[] {
+        const out: Square[] = [];
+        for (const { square, piece } of pos.board.entries()) {
+            if (piece.owner !== attacker) continue;
+            if (this.attacksFrom(pos, square).some((s) => s.file === target.file && s.rank === target.rank)) out.push(square);
+        }
+        return out;
+    }
+
     private static isSquareAttacked(pos: Position, target: Square, attacker: Player): boolean {
         // attacker 側の全駒が target を取れるか（擬似的に判定）
         // ここは「駒の移動生成」を流用して OK（王も含む）
@@ -553,6 +732,49 @@ export class Rules {
         }
         return false;
     }
+
+    // =========================
+    // 入玉宣言（持将棋）
+    // =========================
+    // 27点法: 先手28点・後手27点以上で勝ち、足りなければ宣言負け
+    // 24点法: 31点以上で勝ち、24〜30点は持将棋（引き分け）、23点以下は宣言負け
+    static evaluateDeclaration(pos: Position, player: Player, rule: DeclarationRule = "27"): "WIN" | "DRAW" | "FAIL" {
+        if (pos.turn !== player) return "FAIL";
+
+        const kingSq = this.findKing(pos, player);
+        if (!kingSq || !this.isPromotionZone(player, kingSq.rank)) return "FAIL";
+        if (this.isKingInCheck(pos, player)) return "FAIL";
+
+        // 敵陣にある玉以外の自駒は10枚以上
+        let inZone = 0;
+        for (const { square, piece } of pos.board.entries()) {
+            if (piece.owner !== player || piece.type === PieceType.OU) continue;
+            if (this.isPromotionZone(player, square.rank)) inZone++;
+        }
+        if (inZone < 10) return "FAIL";
+
+        const points = this.declarationPoints(pos, player);
+        if (rule === "27") {
+            return points >= (player === "SENTE" ? 28 : 27) ? "WIN" : "FAIL";
+        }
+        if (points >= 31) return "WIN";
+        return points >= 24 ? "DRAW" : "FAIL";
+    }
+
+    // 大駒5点・小駒1点（敵陣の駒＋持ち駒、玉は数えない）
+    static declarationPoints(pos: Position, player: Player): number {
+        const value = (t: PieceType) => (t === PieceType.KA || t === PieceType.HI ? 5 : 1);
+        let points = 0;
+        for (const { square, piece } of pos.board.entries()) {
+            if (piece.owner !== player || piece.type === PieceType.OU) continue;
+            if (this.isPromotionZone(player, square.rank)) points += value(piece.type);
+        }
+        for (const t of Object.values(PieceType)) {
+            if (t === PieceType.OU) continue;
+            points += value(t) * pos.hand.get(player, t);
+        }
+        return points;
+    }
 }
 
 
@@ -564,41 +786,521 @@ export type GameResult =
     | { kind: "ONGOING" }
     | { kind: "RESIGN"; winner: Player }
     | { kind: "CHECKMATE"; winner: Player }
-    | { kind: "ILLEGAL_MOVE"; loser: Player; reason: string };
+    | { kind: "ILLEGAL_MOVE"; loser: Player; reason?: IllegalReason } // reason は棋譜から読んだ結果などではわからない
+    | { kind: "DRAW_REPETITION" } // 千日手
+    | { kind: "PERPETUAL_CHECK"; loser: Player } // 連続王手の千日手（王手をかけ続けた側の負け）
+    | { kind: "DECLARATION_WIN"; winner: Player } // 入玉宣言勝ち
+    | { kind: "DECLARATION_FAIL"; loser: Player } // 条件を満たさない宣言
+    | { kind: "DRAW_IMPASSE" } // 持将棋（24点法で24〜30点）
+    | { kind: "DRAW_AGREEMENT" } // 合意による引き分け
+    | { kind: "TIME_LOSS"; loser: Player }; // 時間切れ
+
+export type DeclarationRule = "24" | "27";
+
+export type GameOptions = {
+    // FORFEIT: 反則手で負け（既定） / REJECT: 反則手は受け付けずに対局を続ける（検討・指導用）
+    illegalMovePolicy?: "FORFEIT" | "REJECT";
+    // 持ち時間。指定すると対局開始から手番側の時計が動く
+    timeControl?: TimeControl | Record<Player, TimeControl>;
+    // 時刻の取得元（既定は Date.now）
+    clockSource?: ClockSource;
+};
+
+// =====================
+// 持ち時間
+// =====================
+
+// 時間はすべてミリ秒。秒読みも加算もなければ切れ負け
+export type TimeControl = {
+    mainMs: number; // 持ち時間
+    byoyomiMs?: number; // 秒読み
+    byoyomiPeriods?: number; // 秒読みの回数（既定 1。使い切るたびに1回減る）
+    incrementMs?: number; // フィッシャー（1手ごとの加算）
+};
+
+export type ClockSource = () => number;
+
+export type ClockReading = {
+    mainMs: number; // 残りの持ち時間
+    byoyomiMs: number; // この手の秒読みの残り
+    periods: number; // 残りの秒読み回数
+    inByoyomi: boolean;
+    flagged: boolean; // 時間切れ
+};
+
+export class GameClock {
+    private readonly state: Record<Player, { mainMs: number; periods: number; flagged: boolean }>;
+    private running: Player | null = null;
+    private startedAt = 0;
+    // 一時停止までにこの手で使った時間
+    private usedBeforePause = 0;
+    private paused = false;
+
+    constructor(
+        private readonly controls: Record<Player, TimeControl>,
+        private readonly now: ClockSource = Date.now
+    ) {
+        const init = (tc: TimeControl) => ({ mainMs: tc.mainMs, periods: tc.byoyomiMs ? tc.byoyomiPeriods ?? 1 : 0, flagged: false });
+        this.state = { SENTE: init(controls.SENTE), GOTE: init(controls.GOTE) };
+    }
+
+    // player の時計を動かす（もう一方は止まる）
+    start(player: Player): void {
+        this.running = player;
+        this.startedAt = this.now();
+        this.usedBeforePause = 0;
+        this.paused = false;
+    }
+
+    stop(): void {
+        this.running = null;
+        this.paused = false;
+    }
+
+    pause(): void {
+        if (!this.running || this.paused) return;
+        this.usedBeforePause += this.now() - this.startedAt;
+        this.paused = true;
+    }
+
+    resume(): void {
+        if (!this.running || !this.paused) return;
+        this.startedAt = this.now();
+        this.paused = false;
+    }
+
+    getTimeControl(player: Player): TimeControl {
+        return this.controls[player];
+    }
+
+    getRunning(): Player | null {
+        return this.running;
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
+    // 別の時計（通信対局のサーバーなど）の読みに合わせる。running の時計はここから動く
+    sync(readings: Record<Player, ClockReading>, running: Player | null, paused = false): void {
+        for (const p of ["SENTE", "GOTE"] as const) {
+            const r = readings[p];
+            this.state[p] = { mainMs: r.mainMs, periods: r.periods, flagged: r.flagged };
+        }
+        this.running = running;
+        this.startedAt = this.now();
+        this.paused = running !== null && paused;
+        // 秒読みの途中なら、この回ですでに使った分から数える
+        const r = running ? readings[running] : undefined;
+        this.usedBeforePause = r && r.inByoyomi && !r.flagged ? (this.controls[running!].byoyomiMs ?? 0) - r.byoyomiMs : 0;
+    }
+
+    // 指した側の時計を止めて相手の時計を動かす。この手の消費時間を返す
+    punch(): { consumedMs: number; flagged: boolean } {
+        const player = this.running;
+        if (!player) throw new Error("Clock is not running");
+        const consumedMs = this.elapsed();
+        const r = this.settle(player, consumedMs);
+        const st = this.state[player];
+        st.mainMs = r.flagged ? 0 : r.mainMs + (this.controls[player].incrementMs ?? 0);
+        st.periods = r.periods;
+        st.flagged = r.flagged;
+        if (r.flagged) this.stop();
+        else this.start(opposite(player));
+        return { consumedMs, flagged: r.flagged };
+    }
+
+    read(player: Player): ClockReading {
+        return this.settle(player, this.running === player ? this.elapsed() : 0);
+    }
+
+    private elapsed(): number {
+        return this.usedBeforePause + (this.paused ? 0 : this.now() - this.startedAt);
+    }
+
+    // この手で used ミリ秒使ったときの残り
+    private settle(player: Player, used: number): ClockReading {
+        const st = this.state[player];
+        const byoyomi = this.controls[player].byoyomiMs ?? 0;
+        if (st.flagged) return { mainMs: 0, byoyomiMs: 0, periods: 0, inByoyomi: byoyomi > 0, flagged: true };
+        if (used < st.mainMs || (used === st.mainMs && byoyomi === 0)) {
+            return { mainMs: st.mainMs - used, byoyomiMs: byoyomi, periods: st.periods, inByoyomi: false, flagged: false };
+        }
+        // 持ち時間を使い切った分は秒読みから。1回分を超えるごとに回数が減る
+        let over = used - st.mainMs;
+        let periods = st.periods;
+        while (periods > 0 && over > byoyomi) {
+            over -= byoyomi;
+            periods--;
+        }
+        if (periods === 0) return { mainMs: 0, byoyomiMs: 0, periods: 0, inByoyomi: byoyomi > 0, flagged: true };
+        return { mainMs: 0, byoyomiMs: byoyomi - over, periods, inByoyomi: true, flagged: false };
+    }
+}
+
+// 棋譜の木の節点。move は親の局面から指した手（根は null）
+export class KifuNode {
+    readonly children: KifuNode[] = [];
+    comments: string[] = [];
+    result: GameResult = { kind: "ONGOING" };
+    consumedMs?: number; // この手の消費時間（時計を使ったときと、棋譜に書いてあったとき）
+    resultConsumedMs?: number; // 投了など、この局面で終局を表す手の消費時間（棋譜に書いてあったとき）
+    readonly key: string;
+
+    constructor(
+        public readonly parent: KifuNode | null,
+        public readonly move: Move | null,
+        public readonly position: Position,
+        public readonly ply: number,
+        public readonly inCheck: boolean // この局面の手番側が王手されているか
+    ) {
+        this.key = position.key();
+    }
+
+    isMainLine(): boolean {
+        for (let n: KifuNode = this; n.parent; n = n.parent) {
+            if (n.parent.children[0] !== n) return false;
+        }
+        return true;
+    }
+}
+
+// =====================
+// 対局のイベント
+// =====================
+
+export type GameEventMap = {
+    // 指した（既存の変化へ進んだときも含む）
+    move: { move: Move; node: KifuNode; captured?: Piece; promoted: boolean; check: boolean };
+    // 現在の局面の結果が変わった（終局・待ったで対局中に戻った など）
+    result: { result: GameResult; previous: GameResult };
+    // 待った。node は戻った先、undone は取り消した手の節点
+    undo: { node: KifuNode; undone: KifuNode };
+    // 開始局面からやり直した（棋譜・変化はすべて消える）
+    reset: { position: Position };
+};
+
+export type GameEventType = keyof GameEventMap;
+export type GameListener<K extends GameEventType> = (event: GameEventMap[K]) => void;
+// 呼ぶと購読をやめる
+export type Disposer = () => void;
 
 export class Game {
-    private history: Move[] = [];
-    private result: GameResult = { kind: "ONGOING" };
+    private root: KifuNode;
+    private current: KifuNode;
+    // redo で戻る子（最後に通った変化）
+    private selected = new WeakMap<KifuNode, KifuNode>();
+    private clock: GameClock | undefined;
+    private readonly listeners: { [K in GameEventType]: Array<GameListener<K>> } = { move: [], result: [], undo: [], reset: [] };
+
+    constructor(pos: Position, private readonly options: GameOptions = {}) {
+        this.root = new KifuNode(null, null, pos.clone(), 0, false);
+        this.current = this.root;
+        this.clock = this.createClock(pos.turn);
+    }
+
+    // =====================
+    // イベント
+    // =====================
 
-    constructor(public pos: Position) { }
+    on<K extends GameEventType>(type: K, listener: GameListener<K>): Disposer {
+        this.listeners[type].push(listener);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends GameEventType>(type: K, listener: GameListener<K>): void {
+        const list = this.listeners[type];
+        const i = list.indexOf(listener);
+        if (i >= 0) list.splice(i, 1);
+    }
+
+    // 開始局面（省略時は今の開始局面）からやり直す。時計も最初から
+    reset(pos: Position = this.root.position): void {
+        const previous = this.getResult();
+        this.root = new KifuNode(null, null, pos.clone(), 0, false);
+        this.current = this.root;
+        this.selected = new WeakMap();
+        this.clock?.stop();
+        this.clock = this.createClock(pos.turn);
+        this.emit("reset", { position: this.root.position });
+        this.emitResultChange(previous);
+    }
+
+    get pos(): Position {
+        return this.current.position;
+    }
 
     getResult(): GameResult {
-        return this.result;
+        return this.current.result;
     }
 
+    // 棋譜の読み込みなど、盤外で決まった結果を反映する
+    setResult(result: GameResult): void {
+        const previous = this.getResult();
+        this.current.result = result;
+        this.stopClockIfOver();
+        this.emitResultChange(previous);
+    }
+
+    getClock(): GameClock | undefined {
+        return this.clock;
+    }
+
+    // 手番側の時間が切れていれば TIME_LOSS にする（画面の更新などで定期的に呼ぶ）
+    checkTime(): GameResult {
+        if (this.clock && this.current.result.kind === "ONGOING" && this.clock.read(this.pos.turn).flagged) {
+            const previous = this.getResult();
+            this.current.result = { kind: "TIME_LOSS", loser: this.pos.turn };
+            this.clock.stop();
+            this.emitResultChange(previous);
+        }
+        return this.current.result;
+    }
+
+    getInitialPosition(): Position {
+        return this.root.position.clone();
+    }
+
+    // 本譜（各節点の最初の子をたどった手順）
     getHistory(): readonly Move[] {
-        return this.history;
+        return this.getMainLine().map((n) => n.move!);
+    }
+
+    getMainLine(): KifuNode[] {
+        const out: KifuNode[] = [];
+        for (let n = this.root.children[0]; n; n = n.children[0]) out.push(n);
+        return out;
+    }
+
+    // 現在の局面までに指した手
+    getCurrentLine(): readonly Move[] {
+        return this.pathTo(this.current).map((n) => n.move!);
+    }
+
+    // 現在の手順の節点（根は含まない）。現在の節点から先は redo でたどる変化
+    getLineNodes(): KifuNode[] {
+        const out = this.pathTo(this.current);
+        for (let n = this.nextOnLine(this.current); n; n = this.nextOnLine(n)) out.push(n);
+        return out;
+    }
+
+    getRoot(): KifuNode {
+        return this.root;
+    }
+
+    getCurrentNode(): KifuNode {
+        return this.current;
     }
 
     resign(player: Player): void {
-        if (this.result.kind !== "ONGOING") return;
-        this.result = { kind: "RESIGN", winner: opposite(player) };
+        if (this.current.result.kind !== "ONGOING") return;
+        const previous = this.getResult();
+        this.current.result = { kind: "RESIGN", winner: opposite(player) };
+        this.stopClockIfOver();
+        this.emitResultChange(previous);
+    }
+
+    // 入玉宣言。条件を満たさなければ宣言した側の負け
+    declare(player: Player, rule: DeclarationRule = "27"): void {
+        if (this.current.result.kind !== "ONGOING") return;
+        const previous = this.getResult();
+        const verdict = Rules.evaluateDeclaration(this.pos, player, rule);
+        if (verdict === "WIN") this.current.result = { kind: "DECLARATION_WIN", winner: player };
+        else if (verdict === "DRAW") this.current.result = { kind: "DRAW_IMPASSE" };
+        else this.current.result = { kind: "DECLARATION_FAIL", loser: player };
+        this.stopClockIfOver();
+        this.emitResultChange(previous);
+    }
+
+    // 指せば null、反則手なら理由を返す（REJECT なら局面はそのまま）
+    // 現在の節点に同じ手の子があればそこへ進み、なければ新しい変化として追加する
+    // 終局後は GAME_OVER で、手は指されない。時計を使っているときは、指した時点で時間が切れていれば
+    // TIME_LOSS にしてから GAME_OVER を返す
+    play(mv: Move): IllegalReason | "GAME_OVER" | null {
+        if (this.checkTime().kind !== "ONGOING") return "GAME_OVER";
+
+        const previous = this.getResult();
+        const existing = this.current.children.find((c) => Rules.sameMove(c.move!, mv));
+        const node = existing ?? this.addChild(this.current, mv);
+        if (!(node instanceof KifuNode)) {
+            if (this.options.illegalMovePolicy !== "REJECT") {
+                this.current.result = { kind: "ILLEGAL_MOVE", loser: this.pos.turn, reason: node };
+                this.stopClockIfOver();
+                this.emitResultChange(previous);
+            }
+            return node;
+        }
+        if (this.clock) node.consumedMs = this.clock.punch().consumedMs;
+        const captured = mv.kind === "MOVE" ? this.pos.board.get(mv.to) : undefined;
+        this.moveTo(node);
+        this.stopClockIfOver();
+        this.emit("move", { move: mv, node, captured, promoted: mv.kind === "MOVE" && !!mv.promote, check: node.inCheck });
+        this.emitResultChange(previous);
+        return null;
+    }
+
+    // =====================
+    // 待った・変化
+    // =====================
+
+    canUndo(): boolean {
+        return this.current.parent !== null;
     }
 
-    play(mv: Move): void {
-        if (this.result.kind !== "ONGOING") return;
+    undo(): boolean {
+        if (!this.current.parent) return false;
+        const undone = this.current;
+        this.moveTo(undone.parent!);
+        this.emit("undo", { node: this.current, undone });
+        this.emitResultChange(undone.result);
+        return true;
+    }
+
+    canRedo(): boolean {
+        return this.current.children.length > 0;
+    }
+
+    redo(): boolean {
+        const next = this.nextOnLine(this.current);
+        if (!next) return false;
+        this.goTo(next);
+        return true;
+    }
+
+    // 現在の手順（根から現在の節点、その先は最後に通った変化）の ply 手目へ
+    jumpTo(ply: number): boolean {
+        let node: KifuNode = this.current;
+        while (node.ply > ply && node.parent) node = node.parent;
+        while (node.ply < ply) {
+            const next = this.nextOnLine(node);
+            if (!next) return false;
+            node = next;
+        }
+        this.goTo(node);
+        return true;
+    }
+
+    goTo(node: KifuNode): void {
+        if (!this.contains(node)) throw new Error("Node does not belong to this game");
+        const previous = this.getResult();
+        this.moveTo(node);
+        this.emitResultChange(previous);
+    }
 
-        if (!Rules.isLegal(this.pos, mv)) {
-            this.result = { kind: "ILLEGAL_MOVE", loser: this.pos.turn, reason: "illegal by current rules" };
-            return;
+    // from の局面に変化を追加する（現在の局面は動かさない）
+    addVariation(from: KifuNode, mv: Move): KifuNode {
+        if (!this.contains(from)) throw new Error("Node does not belong to this game");
+        const existing = from.children.find((c) => Rules.sameMove(c.move!, mv));
+        if (existing) return existing;
+        const node = this.addChild(from, mv);
+        if (!(node instanceof KifuNode)) throw new Error(`Illegal move: ${node}`);
+        return node;
+    }
+
+    // node に至る手順を本譜にする
+    promoteVariation(node: KifuNode): void {
+        if (!this.contains(node)) throw new Error("Node does not belong to this game");
+        for (let n = node; n.parent; n = n.parent) {
+            const siblings = n.parent.children;
+            siblings.splice(siblings.indexOf(n), 1);
+            siblings.unshift(n);
         }
+    }
 
-        // 適用
-        this.pos = Game.applyMove(this.pos, mv);
-        this.history.push(mv);
+    // node 以下の変化を削除する。現在の局面が含まれていれば親へ戻る
+    deleteBranch(node: KifuNode): void {
+        if (!node.parent) throw new Error("Cannot delete the root");
+        if (!this.contains(node)) throw new Error("Node does not belong to this game");
+        const parent = node.parent;
+        const previous = this.getResult();
+        parent.children.splice(parent.children.indexOf(node), 1);
+        // 消した変化を redo でたどらないように、親で選んでいた子も外す
+        if (this.selected.get(parent) === node) this.selected.delete(parent);
+        if (!this.contains(this.current)) this.moveTo(parent);
+        this.emitResultChange(previous);
+    }
 
-        // TODO: 詰み判定などをここで実装
-        // if (Rules.isCheckmate(this.pos)) ...
+    private moveTo(node: KifuNode): void {
+        for (let n = node; n.parent; n = n.parent) this.selected.set(n.parent, n);
+        this.current = node;
+    }
+
+    private createClock(turn: Player): GameClock | undefined {
+        const tc = this.options.timeControl;
+        if (!tc) return undefined;
+        const controls = "mainMs" in tc ? { SENTE: tc as TimeControl, GOTE: tc as TimeControl } : tc;
+        const clock = new GameClock(controls, this.options.clockSource);
+        clock.start(turn);
+        return clock;
+    }
+
+    private emit<K extends GameEventType>(type: K, event: GameEventMap[K]): void {
+        // 通知中に購読を解除されてもよいように写してから呼ぶ
+        for (const listener of [...this.listeners[type]]) listener(event);
+    }
+
+    private emitResultChange(previous: GameResult): void {
+        const result = this.getResult();
+        if (JSON.stringify(result) !== JSON.stringify(previous)) this.emit("result", { result, previous });
+    }
+
+    private stopClockIfOver(): void {
+        if (this.clock && this.current.result.kind !== "ONGOING") this.clock.stop();
+    }
+
+    private nextOnLine(node: KifuNode): KifuNode | undefined {
+        const sel = this.selected.get(node);
+        return sel && node.children.includes(sel) ? sel : node.children[0];
+    }
+
+    // 根から node まで（根は含まない）
+    private pathTo(node: KifuNode): KifuNode[] {
+        const out: KifuNode[] = [];
+        for (let n: KifuNode | null = node; n && n.parent; n = n.parent) out.unshift(n);
+        return out;
+    }
+
+    private contains(node: KifuNode): boolean {
+        let n: KifuNode = node;
+        while (n.parent) {
+            if (!n.parent.children.includes(n)) return false;
+            n = n.parent;
+        }
+        return n === this.root;
+    }
+
+    private addChild(parent: KifuNode, mv: Move): KifuNode | IllegalReason {
+        const illegal = Rules.validateMove(parent.position, mv);
+        if (illegal) return illegal;
+
+        const mover = parent.position.turn;
+        const next = Game.applyMove(parent.position, mv);
+        const node = new KifuNode(parent, mv, next, parent.ply + 1, Rules.isKingInCheck(next, next.turn));
+        parent.children.push(node);
+
+        // 詰み（王手でなくても合法手がなければ負け）
+        if (Rules.generateLegalMoves(next).length === 0) {
+            node.result = { kind: "CHECKMATE", winner: mover };
+        } else {
+            node.result = this.judgeRepetition(node);
+        }
+        return node;
+    }
+
+    // 同一局面（盤面・持ち駒・手番）が4回目なら千日手
+    private judgeRepetition(node: KifuNode): GameResult {
+        const path = [this.root, ...this.pathTo(node)];
+        const seen = path.filter((n) => n.key === node.key);
+        if (seen.length < 4) return { kind: "ONGOING" };
+
+        // 最初の出現から今までの間、一方の指し手がすべて王手なら連続王手の千日手
+        const span = path.slice(path.indexOf(seen[0]) + 1);
+        for (const side of ["SENTE", "GOTE"] as const) {
+            // 各節点の手を指したのは、その局面で手番でない側
+            const bySide = span.filter((n) => n.position.turn !== side);
+            if (bySide.every((n) => n.inCheck)) return { kind: "PERPETUAL_CHECK", loser: side };
+        }
+        return { kind: "DRAW_REPETITION" };
     }
 
     static applyMove(pos: Position, mv: Move): Position {
@@ -643,7 +1345,71 @@ export class Game {
 // 初期局面生成（あとで配置を詰められるように）
 // =====================
 
+// 手合割。駒落ちは上手（GOTE）が駒を外して先に指す
+export enum Handicap {
+    HIRATE = "HIRATE", // 平手
+    KYO = "KYO", // 香落ち
+    RIGHT_KYO = "RIGHT_KYO", // 右香落ち
+    KAKU = "KAKU", // 角落ち
+    HISHA = "HISHA", // 飛車落ち
+    HIKYO = "HIKYO", // 飛香落ち
+    NIMAI = "NIMAI", // 二枚落ち
+    YONMAI = "YONMAI", // 四枚落ち
+    ROKUMAI = "ROKUMAI", // 六枚落ち
+    HACHIMAI = "HACHIMAI", // 八枚落ち
+    JUMAI = "JUMAI", // 十枚落ち
+}
+
+// KIF の「手合割」に書く名前
+export const HANDICAP_NAMES: Record<Handicap, string> = {
+    [Handicap.HIRATE]: "平手",
+    [Handicap.KYO]: "香落ち",
+    [Handicap.RIGHT_KYO]: "右香落ち",
+    [Handicap.KAKU]: "角落ち",
+    [Handicap.HISHA]: "飛車落ち",
+    [Handicap.HIKYO]: "飛香落ち",
+    [Handicap.NIMAI]: "二枚落ち",
+    [Handicap.YONMAI]: "四枚落ち",
+    [Handicap.ROKUMAI]: "六枚落ち",
+    [Handicap.HACHIMAI]: "八枚落ち",
+    [Handicap.JUMAI]: "十枚落ち",
+};
+
+// 上手が盤から外す駒のマス [file, rank]
+const HANDICAP_REMOVALS: Record<Handicap, Array<[number, number]>> = {
+    [Handicap.HIRATE]: [],
+    [Handicap.KYO]: [[1, 1]],
+    [Handicap.RIGHT_KYO]: [[9, 1]],
+    [Handicap.KAKU]: [[2, 2]],
+    [Handicap.HISHA]: [[8, 2]],
+    [Handicap.HIKYO]: [[8, 2], [1, 1]],
+    [Handicap.NIMAI]: [[8, 2], [2, 2]],
+    [Handicap.YONMAI]: [[8, 2], [2, 2], [1, 1], [9, 1]],
+    [Handicap.ROKUMAI]: [[8, 2], [2, 2], [1, 1], [9, 1], [2, 1], [8, 1]],
+    [Handicap.HACHIMAI]: [[8, 2], [2, 2], [1, 1], [9, 1], [2, 1], [8, 1], [3, 1], [7, 1]],
+    [Handicap.JUMAI]: [[8, 2], [2, 2], [1, 1], [9, 1], [2, 1], [8, 1], [3, 1], [7, 1], [4, 1], [6, 1]],
+};
+
 export class InitialSetup {
+    static handicap(h: Handicap): Position {
+        const base = this.standard();
+        if (h === Handicap.HIRATE) return base;
+        for (const [file, rank] of HANDICAP_REMOVALS[h]) base.board.set(sq(file, rank), undefined);
+        return new Position(base.board, base.hand, "GOTE");
+    }
+
+    // "香落ち" などの手合割名から。知らない名前は undefined
+    static fromHandicapName(name: string): Handicap | undefined {
+        const entry = Object.entries(HANDICAP_NAMES).find(([, n]) => n === name);
+        return entry ? (entry[0] as Handicap) : undefined;
+    }
+
+    // 局面がいずれかの手合割の初期局面と一致すればそれを返す
+    static detectHandicap(pos: Position): Handicap | undefined {
+        const key = pos.key();
+        return Object.values(Handicap).find((h) => this.handicap(h).key() === key);
+    }
+
     static standard(): Position {
         const b = new Board();
         const h = new Hand();
@@ -0,0 +1,172 @@
+// netclient.ts
+// 通信対局のクライアント。WebSocket でサーバー（server.ts）につなぎ、部屋の状態を手元の Game に写す。
+// 自分の手はサーバーへ送るだけで、サーバーから返ってきてから Game に指す（画面は Game のイベントで描き直せる）。
+
+import { Game, InitialSetup, Move, Player, TimeControl } from "./main.js";
+import { ClientMessage, PlayerInfo, RoomSnapshot, Seat, ServerMessage } from "./netproto.js";
+import { Sfen } from "./sfen.js";
+
+const DEFAULT_RECONNECT_DELAY = 2000;
+
+// =====================
+// 型
+// =====================
+
+export type NetClientOptions = {
+    url: string; // ws://host:port/ws
+    room: string;
+    name: string;
+    seat?: Seat; // 省略時は空いている席（なければ観戦）
+    token?: string; // 前回の接続で受け取ったもの。あれば同じ席に戻る
+    timeControl?: TimeControl; // 部屋を新しく作るときの持ち時間
+    reconnectDelayMs?: number;
+    // 状態を丸ごと受け取って Game を作り直した（接続・再接続・食い違いの修正）
+    onSync?: (game: Game) => void;
+    // 対局者・申し出・接続状況が変わった
+    onUpdate?: () => void;
+    onError?: (message: string) => void;
+};
+
+// =====================
+// クライアント
+// =====================
+
+export class NetClient {
+    game: Game = new Game(InitialSetup.standard());
+    seat: Seat = "SPECTATOR";
+    token: string;
+    players: Record<Player, PlayerInfo | null> = { SENTE: null, GOTE: null };
+    drawOffer: Player | null = null;
+    connected = false;
+
+    private socket: WebSocket | null = null;
+    private joined = false;
+    private closing = false;
+    private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(private readonly options: NetClientOptions) {
+        this.token = options.token ?? "";
+    }
+
+    connect(): void {
+        this.closing = false;
+        const socket = new WebSocket(this.options.url);
+        this.socket = socket;
+        socket.onopen = () => {
+            this.connected = true;
+            // 一度入った観戦者は、席が空いていても観戦のまま戻る
+            const seat = this.token ? undefined : this.joined ? "SPECTATOR" : this.options.seat;
+            const { room, name, timeControl } = this.options;
+            this.send({ type: "join", room, name, seat, token: this.token || undefined, timeControl });
+        };
+        socket.onmessage = (e) => this.receive(String(e.data));
+        socket.onclose = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            this.connected = false;
+            this.options.onUpdate?.();
+            if (!this.closing) this.reconnectTimer = setTimeout(() => this.connect(), this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY);
+        };
+    }
+
+    close(): void {
+        this.closing = true;
+        clearTimeout(this.reconnectTimer);
+        this.socket?.close();
+        this.socket = null;
+        this.connected = false;
+    }
+
+    // -------- 操作 --------
+
+    isMyTurn(): boolean {
+        return this.connected && this.seat === this.game.pos.turn && this.game.getResult().kind === "ONGOING";
+    }
+
+    play(mv: Move): void {
+        this.send({ type: "move", move: Sfen.formatMove(mv), ply: this.game.getCurrentNode().ply });
+    }
+
+    resign(): void {
+        this.send({ type: "resign" });
+    }
+
+    offerDraw(): void {
+        this.send({ type: "offerDraw" });
+    }
+
+    answerDraw(accept: boolean): void {
+        this.send({ type: "answerDraw", accept });
+    }
+
+    sync(): void {
+        this.send({ type: "sync" });
+    }
+
+    // -------- 内部 --------
+
+    private send(msg: ClientMessage): void {
+        if (!this.socket || !this.connected) {
+            this.options.onError?.("NET: not connected");
+            return;
+        }
+        this.socket.send(JSON.stringify(msg));
+    }
+
+    private receive(text: string): void {
+        let msg: ServerMessage;
+        try {
+            msg = JSON.parse(text);
+        } catch {
+            this.options.onError?.("NET: malformed message from server");
+            return;
+        }
+        switch (msg.type) {
+            case "joined":
+                this.joined = true;
+                this.seat = msg.seat;
+                this.token = msg.token;
+                this.applyState(msg.state);
+                return;
+            case "state":
+                this.applyState(msg.state);
+                return;
+            case "move":
+                this.applyMove(msg);
+                return;
+            case "error":
+                this.options.onError?.(msg.message);
+                return;
+        }
+    }
+
+    private applyState(state: RoomSnapshot): void {
+        const game = new Game(Sfen.parse(state.sfen).position, state.clock ? { timeControl: state.clock.timeControl } : {});
+        state.moves.forEach((usi, i) => {
+            if (game.play(Sfen.parseMove(usi)) !== null) throw new Error(`NET: server sent an illegal move ${usi}`);
+            game.getCurrentNode().consumedMs = state.consumedMs[i] ?? undefined;
+        });
+        if (state.result.kind !== "ONGOING" || game.getResult().kind !== "ONGOING") game.setResult(state.result);
+        if (state.clock) game.getClock()!.sync(state.clock.readings, state.clock.running, state.clock.paused);
+        this.players = state.players;
+        this.drawOffer = state.drawOffer;
+        this.game = game;
+        this.options.onSync?.(game);
+        this.options.onUpdate?.();
+    }
+
+    private applyMove(msg: Extract<ServerMessage, { type: "move" }>): void {
+        const game = this.game;
+        // 取りこぼしや食い違いがあれば丸ごと送り直してもらう
+        if (msg.ply !== game.getCurrentNode().ply + 1 || game.play(Sfen.parseMove(msg.move)) !== null) {
+            this.sync();
+            return;
+        }
+        if (msg.consumedMs !== null) game.getCurrentNode().consumedMs = msg.consumedMs;
+        if (msg.clock) game.getClock()?.sync(msg.clock.readings, msg.clock.running, msg.clock.paused);
+        if (this.drawOffer) {
+            this.drawOffer = null;
+            this.options.onUpdate?.();
+        }
+    }
+}
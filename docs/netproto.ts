@@ -0,0 +1,64 @@
+// netproto.ts
+// 通信対局（server.ts と netclient.ts）のあいだでやりとりする JSON の型。
+// 指し手は USI 形式の文字列、局面は SFEN で送る。
+
+import { ClockReading, GameClock, GameResult, Player, TimeControl } from "./main.js";
+
+// =====================
+// 型
+// =====================
+
+export type Seat = Player | "SPECTATOR";
+
+export type ClockSnapshot = {
+    timeControl: Record<Player, TimeControl>;
+    readings: Record<Player, ClockReading>;
+    running: Player | null;
+    // 対局者がそろっていない・切断中は止めている
+    paused: boolean;
+};
+
+export type PlayerInfo = { name: string; connected: boolean };
+
+// 再接続したときに送る、部屋の状態のすべて
+export type RoomSnapshot = {
+    room: string;
+    sfen: string; // 開始局面
+    moves: string[];
+    consumedMs: Array<number | null>; // moves と同じ長さ
+    result: GameResult;
+    clock: ClockSnapshot | null;
+    players: Record<Player, PlayerInfo | null>;
+    drawOffer: Player | null; // 引き分けを申し出ている側
+};
+
+export type ClientMessage =
+    // token は前回の joined で受け取ったもの。あれば同じ席に戻る
+    | { type: "join"; room: string; name: string; seat?: Seat; token?: string; timeControl?: TimeControl }
+    // ply は指す前の手数（古い局面からの手を弾く）
+    | { type: "move"; move: string; ply: number }
+    | { type: "resign" }
+    | { type: "offerDraw" }
+    | { type: "answerDraw"; accept: boolean }
+    | { type: "sync" };
+
+export type ServerMessage =
+    | { type: "joined"; seat: Seat; token: string; state: RoomSnapshot }
+    | { type: "state"; state: RoomSnapshot }
+    // ply は指した後の手数
+    | { type: "move"; move: string; ply: number; consumedMs: number | null; clock: ClockSnapshot | null }
+    | { type: "error"; message: string };
+
+// =====================
+// 時計
+// =====================
+
+export function snapshotClock(clock: GameClock | undefined): ClockSnapshot | null {
+    if (!clock) return null;
+    return {
+        timeControl: { SENTE: clock.getTimeControl("SENTE"), GOTE: clock.getTimeControl("GOTE") },
+        readings: { SENTE: clock.read("SENTE"), GOTE: clock.read("GOTE") },
+        running: clock.getRunning(),
+        paused: clock.isPaused(),
+    };
+}
@@ -0,0 +1,223 @@
+// perft.ts
+// 指し手生成の数え上げ（perft / divide）と、公開されている値での回帰テスト。
+// `node perft.js [--generator RULES|FAST] [--max-depth 深さ] [--max-nodes 数]` で PERFT_SUITE を流し、食い違えば終了コード 1。
+
+import { pathToFileURL } from "node:url";
+import { Game, Move, Position, Rules } from "./main.js";
+import { FastPosition } from "./fastpos.js";
+import { Sfen, STANDARD_SFEN } from "./sfen.js";
+
+// =====================
+// 型
+// =====================
+
+// RULES: Rules.generateLegalMoves（基準実装） / FAST: FastPosition
+export type PerftGenerator = "RULES" | "FAST";
+
+export type DivideEntry = {
+    move: Move;
+    usi: string;
+    nodes: number;
+};
+
+// counts[i] は深さ i+1 の葉の数
+export type PerftCase = {
+    name: string;
+    sfen: string;
+    counts: number[];
+};
+
+export type PerftFailure = {
+    name: string;
+    depth: number;
+    expected: number;
+    actual: number;
+};
+
+// 初手ごとの葉の数が RULES と FAST で違うもの（片方にしかない手は 0 として）
+export type DivideMismatch = {
+    usi: string;
+    rules: number;
+    fast: number;
+};
+
+export type PerftSuiteOptions = {
+    generator?: PerftGenerator;
+    maxDepth?: number;
+    // 期待値がこれを超える深さは飛ばす（RULES は遅いので）
+    maxNodes?: number;
+};
+
+// =====================
+// 回帰テスト用の局面
+// =====================
+// 平手・祭り・最多合法手は公開されている値。手作りの局面は深さ1だけを手で数えた
+// （下のコメントが内訳）。それより深いところは RULES と FAST の divide を突き合わせて確かめる
+
+export const PERFT_SUITE: PerftCase[] = [
+    {
+        name: "平手初期局面",
+        sfen: STANDARD_SFEN,
+        counts: [30, 900, 25470, 719731, 19861490],
+    },
+    {
+        // 駒打ち・成り・王手が入り乱れる中盤
+        name: "祭り",
+        sfen: "l6nl/5+P1gk/2np1S3/p1p4Pp/3P2Sp1/1PPb2P1P/P5GS1/R8/LN4bKL w RGgsn5p 1",
+        counts: [207, 28684, 4809015],
+    },
+    {
+        // 駒打ちだらけ（合法手数の最大局面）
+        name: "最多合法手",
+        sfen: "R8/2K1S1SSk/4B4/9/9/9/9/9/1L1L1L3 b RBGSNLP3g3n17p 1",
+        counts: [593, 105677],
+    },
+    {
+        // 玉5 + 金6 + 歩打ち 69（1段目以外の空き70から、打ち歩詰めの▲1二歩を除く）
+        name: "打ち歩詰め",
+        sfen: "7lk/9/7G1/9/9/9/9/9/4K4 b P2p 1",
+        counts: [80],
+    },
+    {
+        // 玉5 + 金5 + ▲1二歩成・不成の2（突き歩詰めは合法）+ 金打ち76
+        name: "突き歩詰め",
+        sfen: "7lk/9/7GP/9/9/9/9/9/4K4 b G 1",
+        counts: [88],
+    },
+    {
+        // 玉4（4九は香と桂の利き）+ 歩・香・桂の行き所のない成りだけ4
+        // + 香打ち65・桂打ち58・歩打ち59（1段目、桂は2段目も、歩は7筋も打てない）
+        name: "強制成り",
+        sfen: "k8/2P1L4/6N2/9/9/9/6n2/2p2l3/4K4 b LNPlnp 1",
+        counts: [190],
+    },
+    {
+        // 王手を受けるのは玉3（4九・6九は飛の利き）と 6〜8九への金・歩の合駒6。
+        // 金は飛に、銀は角にピンされていて動けない
+        name: "ピンと合駒",
+        sfen: "k3r4/9/9/9/4G3b/9/6S2/9/r3K4 b GP 1",
+        counts: [9],
+    },
+    {
+        // 玉3 + 飛9 + 角1 + 桂2 + 銀5（動くと飛の開き王手）+ 歩打ち67
+        name: "開き王手",
+        sfen: "4k4/9/9/9/4S4/9/2N6/9/B3R3K b Pp 1",
+        counts: [87],
+    },
+];
+
+// =====================
+// perft / divide
+// =====================
+
+export class Perft {
+    // 深さ depth の葉の数
+    static perft(pos: Position, depth: number, generator: PerftGenerator = "RULES"): number {
+        if (generator === "FAST") return FastPosition.fromPosition(pos).perft(depth);
+        return this.perftRules(pos, depth);
+    }
+
+    // 初手ごとの葉の数（生成器どうしの差分を探すとき用）
+    static divide(pos: Position, depth: number, generator: PerftGenerator = "RULES"): DivideEntry[] {
+        if (depth < 1) throw new Error("divide: depth must be at least 1");
+
+        const out: DivideEntry[] = [];
+        if (generator === "FAST") {
+            const fp = FastPosition.fromPosition(pos);
+            for (const m of fp.generateLegal()) {
+                fp.makeMove(m);
+                const nodes = fp.perft(depth - 1);
+                fp.unmakeMove(m);
+                const move = FastPosition.decodeMove(m);
+                out.push({ move, usi: Sfen.formatMove(move), nodes });
+            }
+        } else {
+            for (const move of Rules.generateLegalMoves(pos)) {
+                const nodes = this.perftRules(Game.applyMove(pos, move), depth - 1);
+                out.push({ move, usi: Sfen.formatMove(move), nodes });
+            }
+        }
+        return out.sort((a, b) => (a.usi < b.usi ? -1 : a.usi > b.usi ? 1 : 0));
+    }
+
+    // 回帰テスト。食い違いのあった深さを返す（空なら全一致）
+    static runSuite(cases: PerftCase[] = PERFT_SUITE, options: PerftSuiteOptions = {}): PerftFailure[] {
+        const generator = options.generator ?? "RULES";
+        const maxDepth = options.maxDepth ?? Infinity;
+        const maxNodes = options.maxNodes ?? Infinity;
+
+        const failures: PerftFailure[] = [];
+        for (const c of cases) {
+            const pos = Sfen.parse(c.sfen).position;
+            c.counts.forEach((expected, i) => {
+                const depth = i + 1;
+                if (depth > maxDepth || expected > maxNodes) return;
+                const actual = this.perft(pos, depth, generator);
+                if (actual !== expected) failures.push({ name: c.name, depth, expected, actual });
+            });
+        }
+        return failures;
+    }
+
+    // 2つの生成器の divide を突き合わせる（空なら一致）
+    static compareGenerators(pos: Position, depth: number): DivideMismatch[] {
+        const rules = new Map(this.divide(pos, depth, "RULES").map((e) => [e.usi, e.nodes]));
+        const fast = new Map(this.divide(pos, depth, "FAST").map((e) => [e.usi, e.nodes]));
+        const out: DivideMismatch[] = [];
+        for (const usi of [...new Set([...rules.keys(), ...fast.keys()])].sort()) {
+            const r = rules.get(usi) ?? 0;
+            const f = fast.get(usi) ?? 0;
+            if (r !== f) out.push({ usi, rules: r, fast: f });
+        }
+        return out;
+    }
+
+    private static perftRules(pos: Position, depth: number): number {
+        if (depth === 0) return 1;
+        const moves = Rules.generateLegalMoves(pos);
+        if (depth === 1) return moves.length;
+        let n = 0;
+        for (const mv of moves) n += this.perftRules(Game.applyMove(pos, mv), depth - 1);
+        return n;
+    }
+}
+
+// =====================
+// コマンドライン
+// =====================
+
+function parseArgs(args: string[]): PerftSuiteOptions {
+    const options: PerftSuiteOptions = { generator: "FAST" };
+    for (let i = 0; i < args.length; i++) {
+        const value = () => {
+            const n = Number(args[++i]);
+            if (!Number.isInteger(n) || n < 1) throw new Error(`perft: ${args[i - 1]} needs a positive integer`);
+            return n;
+        };
+        if (args[i] === "--generator") {
+            const g = args[++i];
+            if (g !== "RULES" && g !== "FAST") throw new Error("perft: --generator must be RULES or FAST");
+            options.generator = g;
+        } else if (args[i] === "--max-depth") options.maxDepth = value();
+        else if (args[i] === "--max-nodes") options.maxNodes = value();
+        else throw new Error("usage: node perft.js [--generator RULES|FAST] [--max-depth N] [--max-nodes N]");
+    }
+    return options;
+}
+
+function main(args: string[]): void {
+    const options = parseArgs(args);
+    const failures = Perft.runSuite(PERFT_SUITE, options);
+    for (const f of failures) process.stderr.write(`${f.name} depth ${f.depth}: expected ${f.expected}, got ${f.actual}\n`);
+    process.stdout.write(`${PERFT_SUITE.length} positions (${options.generator}): ${failures.length === 0 ? "ok" : `${failures.length} mismatches`}\n`);
+    if (failures.length > 0) process.exitCode = 1;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    try {
+        main(process.argv.slice(2));
+    } catch (e) {
+        process.stderr.write(`${e instanceof Error ? e.message : String(e)}\n`);
+        process.exitCode = 1;
+    }
+}
@@ -0,0 +1,201 @@
+// review.ts
+// 対局後の振り返り。本譜（Game.getHistory）の各局面を Engine で決まったノード数だけ読み、
+// 指した手で評価値がどれだけ下がったかで 最善・良い手・緩手・疑問手・悪手 に分ける。
+// 結果は JSON にも、KIF のコメント（Kif.exportKif でそのまま書き出せる）にもできる。
+
+import { Game, Move, Player, Position, Rules } from "./main.js";
+import { Engine, MATE_SCORE, isMateScore } from "./engine.js";
+import { Kif } from "./kif.js";
+import { Sfen } from "./sfen.js";
+
+// =====================
+// 型
+// =====================
+
+export type MoveLabel = "BEST" | "GOOD" | "INACCURACY" | "MISTAKE" | "BLUNDER";
+
+export const MOVE_LABEL_NAMES: Record<MoveLabel, string> = {
+    BEST: "最善手",
+    GOOD: "良い手",
+    INACCURACY: "緩手",
+    MISTAKE: "疑問手",
+    BLUNDER: "悪手",
+};
+
+// 評価値の損（centipawn）がそれぞれ以下なら GOOD / INACCURACY / MISTAKE、超えれば BLUNDER
+export type ReviewThresholds = { good: number; inaccuracy: number; mistake: number };
+
+export type ReviewOptions = {
+    nodeLimit?: number; // 1局面あたり
+    thresholds?: Partial<ReviewThresholds>;
+    engine?: Engine;
+    // 局面を1つ読み終えるごと（done は 1 から total まで）
+    onProgress?: (done: number, total: number) => void;
+    // AbortSignal 互換。aborted になると REVIEW: aborted で止まる
+    signal?: { readonly aborted: boolean };
+};
+
+// 評価値はすべて先手から見た値（詰みは ±SCORE_CAP に丸める）
+export type MoveReview = {
+    ply: number;
+    player: Player;
+    move: Move;
+    label: MoveLabel;
+    scoreBefore: number; // 指す前の局面の評価（最善を指した場合）
+    scoreAfter: number; // 指した後の局面の評価
+    loss: number; // 指した側から見て下がった分（0 以上）
+    best: Move | null; // 指す前の局面での最善手
+    pv: Move[]; // best から始まる読み筋
+    missedMate: number | null; // 詰みがあったのに逃したとき、その手数
+};
+
+export type GameReview = {
+    nodeLimit: number;
+    evals: number[]; // 添字は手数（0 が開始局面）
+    moves: MoveReview[];
+    summary: Record<Player, { counts: Record<MoveLabel, number>; averageLoss: number }>;
+};
+
+// JSON に書き出すときの形（指し手は USI 表記）
+export type GameReviewJson = Omit<GameReview, "moves"> & {
+    moves: Array<Omit<MoveReview, "move" | "best" | "pv"> & { move: string; best: string | null; pv: string[] }>;
+};
+
+const DEFAULT_NODE_LIMIT = 20000;
+const DEFAULT_THRESHOLDS: ReviewThresholds = { good: 50, inaccuracy: 150, mistake: 400 };
+// 詰みの評価値はグラフと損の計算ではこの値に丸める
+export const SCORE_CAP = 3000;
+// annotate が書き込むコメントの頭（付け直すときにこれで古いものを消す）
+const COMMENT_PREFIX = "解析: ";
+
+// mate は詰みまでの手数（先手が詰ますなら正、後手なら負）
+type Searched = { score: number; mate: number | null; best: Move | null; pv: Move[] };
+
+// =====================
+// 振り返り
+// =====================
+
+export class Review {
+    static async analyze(game: Game, options: ReviewOptions = {}): Promise<GameReview> {
+        const nodeLimit = options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+        const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+        const engine = options.engine ?? new Engine();
+
+        const line = game.getMainLine();
+        const positions = [game.getRoot().position, ...line.map((n) => n.position)];
+        const searched: Searched[] = [];
+        for (const pos of positions) {
+            if (options.signal?.aborted) throw new Error("REVIEW: aborted");
+            searched.push(this.search(engine, pos, nodeLimit));
+            options.onProgress?.(searched.length, positions.length);
+            // ブラウザで画面が固まらないように1局面ごとに手放す
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+
+        const moves = line.map((node, i): MoveReview => {
+            const before = searched[i];
+            const after = searched[i + 1];
+            const player = positions[i].turn;
+            const sign = player === "SENTE" ? 1 : -1;
+            const loss = Math.max(0, sign * (before.score - after.score));
+            // 詰みを読めていたのに、指した後は自分の勝ちの詰みが見えない（その手で詰ませたなら逃していない）
+            const keptMate = Rules.isCheckmate(positions[i + 1]) || (after.mate !== null && sign * after.mate > 0);
+            const missedMate = before.mate !== null && sign * before.mate > 0 && !keptMate ? Math.abs(before.mate) : null;
+            const label = before.best && Rules.sameMove(before.best, node.move!) ? "BEST" : classify(loss, thresholds);
+            return {
+                ply: node.ply,
+                player,
+                move: node.move!,
+                label: missedMate !== null ? "BLUNDER" : label,
+                scoreBefore: before.score,
+                scoreAfter: after.score,
+                loss,
+                best: before.best,
+                pv: before.pv,
+                missedMate,
+            };
+        });
+        return { nodeLimit, evals: searched.map((s) => s.score), moves, summary: summarize(moves) };
+    }
+
+    // 本譜の各手に振り返りのコメントを付ける（前に付けたものは置き換える）
+    static annotate(game: Game, review: GameReview): void {
+        const line = game.getMainLine();
+        for (const m of review.moves) {
+            const node = line[m.ply - 1];
+            if (!node) continue;
+            node.comments = node.comments.filter((c) => !c.startsWith(COMMENT_PREFIX));
+            node.comments.push(...this.describe(node.parent!.position, m).map((c) => COMMENT_PREFIX + c));
+        }
+    }
+
+    // 1手分の説明（KIF のコメントや画面に出す文）
+    static describe(pos: Position, m: MoveReview): string[] {
+        const out = [`${MOVE_LABEL_NAMES[m.label]} 評価値 ${formatScore(m.scoreBefore)} → ${formatScore(m.scoreAfter)}`];
+        if (m.missedMate !== null) out.push(`${m.missedMate}手詰みがありました`);
+        if (m.label !== "BEST" && m.best) out.push(`最善 ${this.formatLine(pos, [m.best])} 読み筋 ${this.formatLine(pos, m.pv)}`);
+        return out;
+    }
+
+    // "▲７六歩△３四歩▲２二角成"
+    static formatLine(pos: Position, moves: readonly Move[]): string {
+        let out = "";
+        let prev: Move | undefined;
+        for (const mv of moves) {
+            out += (pos.turn === "SENTE" ? "▲" : "△") + Kif.formatKi2Move(pos, mv, prev?.to);
+            pos = Game.applyMove(pos, mv);
+            prev = mv;
+        }
+        return out;
+    }
+
+    static toJSON(review: GameReview): GameReviewJson {
+        return {
+            ...review,
+            moves: review.moves.map((m) => ({
+                ...m,
+                move: Sfen.formatMove(m.move),
+                best: m.best ? Sfen.formatMove(m.best) : null,
+                pv: m.pv.map((mv) => Sfen.formatMove(mv)),
+            })),
+        };
+    }
+
+    // -------- 内部 --------
+
+    private static search(engine: Engine, pos: Position, nodeLimit: number): Searched {
+        const r = engine.search(pos, { nodeLimit });
+        const sign = pos.turn === "SENTE" ? 1 : -1;
+        const mate = isMateScore(r.score) ? sign * Math.sign(r.score) * (MATE_SCORE - Math.abs(r.score)) : null;
+        const score = sign * Math.max(-SCORE_CAP, Math.min(SCORE_CAP, r.score));
+        return { score, mate, best: r.move, pv: r.pv };
+    }
+}
+
+// =====================
+// 補助
+// =====================
+
+function classify(loss: number, t: ReviewThresholds): MoveLabel {
+    if (loss <= t.good) return "GOOD";
+    if (loss <= t.inaccuracy) return "INACCURACY";
+    if (loss <= t.mistake) return "MISTAKE";
+    return "BLUNDER";
+}
+
+function summarize(moves: MoveReview[]): GameReview["summary"] {
+    const empty = () => ({ counts: { BEST: 0, GOOD: 0, INACCURACY: 0, MISTAKE: 0, BLUNDER: 0 }, averageLoss: 0 });
+    const summary = { SENTE: empty(), GOTE: empty() };
+    for (const player of ["SENTE", "GOTE"] as const) {
+        const own = moves.filter((m) => m.player === player);
+        for (const m of own) summary[player].counts[m.label]++;
+        summary[player].averageLoss = own.length > 0 ? Math.round(own.reduce((n, m) => n + m.loss, 0) / own.length) : 0;
+    }
+    return summary;
+}
+
+// 先手から見た値を "+120" / "-3000" の形で（丸めた詰みは "先手勝ち" / "後手勝ち"）
+function formatScore(score: number): string {
+    if (Math.abs(score) >= SCORE_CAP) return `${score > 0 ? "先手" : "後手"}勝ち`;
+    return score > 0 ? `+${score}` : String(score);
+}
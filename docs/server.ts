@@ -0,0 +1,480 @@
+// server.ts
+// 通信対局のサーバー。`node server.js [port]` で起動し、ブラウザで http://localhost:port/ を開く。
+// 同じディレクトリの index.html と .js を配り、/ws で WebSocket（RFC 6455、Node 標準モジュールだけで実装）を受ける。
+// 局面・時計・結果はサーバーの Game が正で、指し手は Rules で検証してから部屋の全員に送る。
+
+import { createHash, randomBytes } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { Socket } from "node:net";
+import { dirname, extname, join, normalize, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { Game, InitialSetup, Player, Rules, TimeControl, opposite } from "./main.js";
+import { ClientMessage, RoomSnapshot, Seat, ServerMessage, snapshotClock } from "./netproto.js";
+import { Sfen } from "./sfen.js";
+
+const DEFAULT_PORT = 8080;
+const WS_PATH = "/ws";
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD = 64 * 1024;
+// 時間切れを調べる間隔
+const CLOCK_CHECK_INTERVAL = 100;
+// 誰もいなくなった部屋を消すまでの時間（その間は再接続できる）
+const ROOM_TTL = 10 * 60 * 1000;
+const MAX_NAME_LENGTH = 32;
+// 持ち時間・秒読みの下限（0 は「なし」）。これより短いと指す前に切れる
+const MIN_TIME_MS = 1000;
+
+const CONTENT_TYPES: Record<string, string> = {
+    ".html": "text/html; charset=utf-8",
+    ".js": "text/javascript; charset=utf-8",
+    ".css": "text/css; charset=utf-8",
+    ".json": "application/json; charset=utf-8",
+    ".svg": "image/svg+xml",
+    ".png": "image/png",
+};
+
+// =====================
+// WebSocket
+// =====================
+
+class WsConnection {
+    onMessage: (text: string) => void = () => { };
+    onClose: () => void = () => { };
+
+    private buffer: Buffer = Buffer.alloc(0);
+    // 分割されたテキストフレーム
+    private fragments: Buffer[] | null = null;
+    private closed = false;
+
+    constructor(private readonly socket: Socket, head: Buffer) {
+        socket.setNoDelay(true);
+        socket.on("data", (chunk) => this.receive(chunk));
+        socket.on("close", () => this.finish());
+        socket.on("error", () => this.finish());
+        if (head.length > 0) this.receive(head);
+    }
+
+    send(text: string): void {
+        this.write(0x1, Buffer.from(text, "utf8"));
+    }
+
+    close(code = 1000): void {
+        if (this.closed) return;
+        const payload = Buffer.alloc(2);
+        payload.writeUInt16BE(code);
+        this.write(0x8, payload);
+        this.socket.end();
+        this.finish();
+    }
+
+    private write(opcode: number, payload: Buffer): void {
+        if (this.closed || this.socket.destroyed) return;
+        const n = payload.length;
+        let head: Buffer;
+        if (n < 126) {
+            head = Buffer.from([0x80 | opcode, n]);
+        } else if (n < 0x10000) {
+            head = Buffer.from([0x80 | opcode, 126, n >> 8, n & 0xff]);
+        } else {
+            head = Buffer.alloc(10);
+            head[0] = 0x80 | opcode;
+            head[1] = 127;
+            head.writeBigUInt64BE(BigInt(n), 2);
+        }
+        this.socket.write(Buffer.concat([head, payload]));
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+        while (!this.closed) {
+            const b = this.buffer;
+            if (b.length < 2) return;
+            const fin = (b[0] & 0x80) !== 0;
+            const opcode = b[0] & 0x0f;
+            // クライアントからのフレームは必ずマスクされている
+            if ((b[1] & 0x80) === 0) return this.close(1002);
+            let length = b[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (b.length < 4) return;
+                length = b.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (b.length < 10) return;
+                const big = b.readBigUInt64BE(2);
+                if (big > BigInt(MAX_PAYLOAD)) return this.close(1009);
+                length = Number(big);
+                offset = 10;
+            }
+            if (length > MAX_PAYLOAD) return this.close(1009);
+            if (b.length < offset + 4 + length) return;
+            const mask = b.subarray(offset, offset + 4);
+            const payload = Buffer.from(b.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+            this.buffer = b.subarray(offset + 4 + length);
+            this.frame(fin, opcode, payload);
+        }
+    }
+
+    private frame(fin: boolean, opcode: number, payload: Buffer): void {
+        switch (opcode) {
+            case 0x0: // 続き
+                if (!this.fragments) return this.close(1002);
+                this.fragments.push(payload);
+                break;
+            case 0x1:
+                if (this.fragments) return this.close(1002);
+                this.fragments = [payload];
+                break;
+            case 0x8:
+                return this.close(1000);
+            case 0x9:
+                this.write(0xa, payload);
+                return;
+            case 0xa:
+                return;
+            default: // バイナリは使わない
+                return this.close(1003);
+        }
+        if (!fin) {
+            if (this.fragments.reduce((n, f) => n + f.length, 0) > MAX_PAYLOAD) this.close(1009);
+            return;
+        }
+        const text = Buffer.concat(this.fragments).toString("utf8");
+        this.fragments = null;
+        this.onMessage(text);
+    }
+
+    private finish(): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.socket.destroy();
+        this.onClose();
+    }
+}
+
+// =====================
+// 部屋
+// =====================
+
+type Client = { ws: WsConnection; room: Room | null; seat: Seat };
+type SeatHolder = { name: string; token: string; client: Client | null };
+
+class Room {
+    readonly game: Game;
+    readonly seats: Record<Player, SeatHolder | null> = { SENTE: null, GOTE: null };
+    readonly clients = new Set<Client>();
+    drawOffer: Player | null = null;
+    expiry: ReturnType<typeof setTimeout> | undefined;
+
+    private timer: ReturnType<typeof setInterval> | undefined;
+
+    constructor(readonly name: string, timeControl: TimeControl | undefined) {
+        this.game = new Game(InitialSetup.standard(), timeControl ? { timeControl } : {});
+        // 対局者がそろうまで時計は止めておく
+        this.game.getClock()?.pause();
+        this.game.on("move", (e) => {
+            this.drawOffer = null;
+            this.broadcast({
+                type: "move",
+                move: Sfen.formatMove(e.move),
+                ply: e.node.ply,
+                consumedMs: e.node.consumedMs ?? null,
+                clock: snapshotClock(this.game.getClock()),
+            });
+        });
+        this.game.on("result", () => {
+            this.drawOffer = null;
+            this.dispose();
+            this.broadcastState();
+        });
+        if (timeControl) this.timer = setInterval(() => this.game.checkTime(), CLOCK_CHECK_INTERVAL);
+    }
+
+    // 両対局者が接続しているか
+    isFull(): boolean {
+        return !!this.seats.SENTE?.client && !!this.seats.GOTE?.client;
+    }
+
+    // 対局者の接続に合わせて時計を止める・動かす
+    updateClock(): void {
+        const clock = this.game.getClock();
+        if (!clock || this.game.getResult().kind !== "ONGOING") return;
+        if (this.isFull()) clock.resume();
+        else clock.pause();
+    }
+
+    snapshot(): RoomSnapshot {
+        const line = this.game.getMainLine();
+        const info = (p: Player) => {
+            const s = this.seats[p];
+            return s ? { name: s.name, connected: !!s.client } : null;
+        };
+        return {
+            room: this.name,
+            sfen: Sfen.stringify(this.game.getInitialPosition()),
+            moves: line.map((n) => Sfen.formatMove(n.move!)),
+            consumedMs: line.map((n) => n.consumedMs ?? null),
+            result: this.game.getResult(),
+            clock: snapshotClock(this.game.getClock()),
+            players: { SENTE: info("SENTE"), GOTE: info("GOTE") },
+            drawOffer: this.drawOffer,
+        };
+    }
+
+    broadcastState(): void {
+        this.broadcast({ type: "state", state: this.snapshot() });
+    }
+
+    broadcast(msg: ServerMessage): void {
+        const text = JSON.stringify(msg);
+        for (const c of this.clients) c.ws.send(text);
+    }
+
+    dispose(): void {
+        if (this.timer !== undefined) clearInterval(this.timer);
+        this.timer = undefined;
+    }
+}
+
+// =====================
+// サーバー
+// =====================
+
+export class ShogiServer {
+    private readonly http: Server;
+    private readonly rooms = new Map<string, Room>();
+    private readonly connections = new Set<WsConnection>();
+
+    // root は配るファイルのディレクトリ（既定は server.js のある場所）
+    constructor(private readonly root: string = dirname(fileURLToPath(import.meta.url))) {
+        this.http = createServer((req, res) => void this.serveFile(req, res));
+        this.http.on("upgrade", (req: IncomingMessage, socket: Socket, head: Buffer) => this.upgrade(req, socket, head));
+    }
+
+    // 待ち受けを始め、実際のポートを返す（0 なら空いているポート）
+    listen(port: number = DEFAULT_PORT, host?: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.http.once("error", reject);
+            this.http.listen(port, host, () => {
+                this.http.off("error", reject);
+                const addr = this.http.address();
+                resolve(typeof addr === "object" && addr ? addr.port : port);
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        for (const ws of this.connections) ws.close(1001);
+        for (const room of this.rooms.values()) this.removeRoom(room);
+        return new Promise((resolve) => this.http.close(() => resolve()));
+    }
+
+    // -------- HTTP --------
+
+    private async serveFile(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method !== "GET" && req.method !== "HEAD") {
+            res.writeHead(405).end();
+            return;
+        }
+        let path: string;
+        try {
+            path = decodeURIComponent(new URL(req.url ?? "/", "http://localhost").pathname);
+        } catch {
+            res.writeHead(400).end();
+            return;
+        }
+        if (path.endsWith("/")) path += "index.html";
+        const file = normalize(join(this.root, path));
+        if (!file.startsWith(this.root + sep)) {
+            res.writeHead(403).end();
+            return;
+        }
+        try {
+            const body = await readFile(file);
+            res.writeHead(200, { "Content-Type": CONTENT_TYPES[extname(file)] ?? "application/octet-stream" });
+            res.end(req.method === "HEAD" ? undefined : body);
+        } catch {
+            res.writeHead(404).end();
+        }
+    }
+
+    private upgrade(req: IncomingMessage, socket: Socket, head: Buffer): void {
+        const key = req.headers["sec-websocket-key"];
+        const path = new URL(req.url ?? "/", "http://localhost").pathname;
+        if (path !== WS_PATH || req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+            socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+            return;
+        }
+        const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+        socket.write(
+            ["HTTP/1.1 101 Switching Protocols", "Upgrade: websocket", "Connection: Upgrade", `Sec-WebSocket-Accept: ${accept}`, "", ""].join("\r\n")
+        );
+
+        const ws = new WsConnection(socket, head);
+        const client: Client = { ws, room: null, seat: "SPECTATOR" };
+        this.connections.add(ws);
+        ws.onMessage = (text) => this.receive(client, text);
+        ws.onClose = () => {
+            this.connections.delete(ws);
+            this.leave(client);
+        };
+    }
+
+    // -------- メッセージ --------
+
+    private receive(client: Client, text: string): void {
+        let msg: ClientMessage;
+        try {
+            msg = JSON.parse(text);
+        } catch {
+            return this.sendError(client, "SERVER: malformed JSON");
+        }
+        try {
+            this.dispatch(client, msg);
+        } catch (e) {
+            this.sendError(client, e instanceof Error ? e.message : String(e));
+        }
+    }
+
+    private dispatch(client: Client, msg: ClientMessage): void {
+        if (msg.type === "join") return this.join(client, msg);
+        const room = client.room;
+        if (!room) throw new Error("SERVER: join a room first");
+        const game = room.game;
+        if (msg.type === "sync") {
+            this.send(client, { type: "state", state: room.snapshot() });
+            return;
+        }
+
+        const seat = client.seat;
+        if (seat === "SPECTATOR") throw new Error("SERVER: spectators cannot play");
+        if (game.checkTime().kind !== "ONGOING") {
+            // 終局で引き分けの申し出は消えている。行き違いの返事は結果の state が届くので黙って捨てる
+            if (msg.type === "answerDraw") return;
+            throw new Error("SERVER: the game is over");
+        }
+        switch (msg.type) {
+            case "move": {
+                if (!room.isFull()) throw new Error("SERVER: waiting for the opponent");
+                if (game.pos.turn !== seat) throw new Error("SERVER: not your turn");
+                if (msg.ply !== game.getCurrentNode().ply) throw new Error(`SERVER: stale move (ply ${msg.ply}, now ${game.getCurrentNode().ply})`);
+                const mv = Sfen.parseMove(String(msg.move));
+                if (!Rules.isLegal(game.pos, mv)) throw new Error(`SERVER: illegal move ${msg.move}`);
+                game.play(mv);
+                return;
+            }
+            case "resign":
+                game.resign(seat);
+                return;
+            case "offerDraw":
+                if (room.drawOffer) throw new Error("SERVER: a draw offer is already pending");
+                room.drawOffer = seat;
+                room.broadcastState();
+                return;
+            case "answerDraw":
+                if (room.drawOffer !== opposite(seat)) throw new Error("SERVER: no draw offer to answer");
+                if (msg.accept) {
+                    game.setResult({ kind: "DRAW_AGREEMENT" });
+                } else {
+                    room.drawOffer = null;
+                    room.broadcastState();
+                }
+                return;
+            default:
+                throw new Error(`SERVER: unknown message type "${(msg as { type: unknown }).type}"`);
+        }
+    }
+
+    private join(client: Client, msg: Extract<ClientMessage, { type: "join" }>): void {
+        if (client.room) throw new Error("SERVER: already in a room");
+        const name = String(msg.room ?? "").trim();
+        if (name === "" || name.length > MAX_NAME_LENGTH) throw new Error("SERVER: invalid room name");
+
+        let room = this.rooms.get(name);
+        if (!room) {
+            room = new Room(name, validTimeControl(msg.timeControl));
+            this.rooms.set(name, room);
+        }
+        if (room.expiry !== undefined) clearTimeout(room.expiry);
+        room.expiry = undefined;
+
+        const playerName = String(msg.name ?? "").trim().slice(0, MAX_NAME_LENGTH);
+        const token = randomBytes(16).toString("hex");
+        let seat: Seat = "SPECTATOR";
+        const rejoin = (["SENTE", "GOTE"] as const).find((p) => msg.token && room!.seats[p]?.token === msg.token);
+        if (rejoin) {
+            // 同じ席の古い接続は切る
+            const holder = room.seats[rejoin]!;
+            if (holder.client) {
+                holder.client.room = null;
+                room.clients.delete(holder.client);
+                holder.client.ws.close(4000);
+            }
+            holder.client = client;
+            if (playerName) holder.name = playerName;
+            seat = rejoin;
+        } else {
+            const wanted = msg.seat === "SENTE" || msg.seat === "GOTE" ? [msg.seat] : msg.seat === "SPECTATOR" ? [] : (["SENTE", "GOTE"] as const);
+            const free = wanted.find((p) => !room!.seats[p]);
+            if (free) {
+                room.seats[free] = { name: playerName, token, client };
+                seat = free;
+            }
+        }
+
+        client.room = room;
+        client.seat = seat;
+        room.clients.add(client);
+        room.updateClock();
+        this.send(client, { type: "joined", seat, token: seat === "SPECTATOR" ? "" : room.seats[seat]!.token, state: room.snapshot() });
+        for (const c of room.clients) {
+            if (c !== client) this.send(c, { type: "state", state: room.snapshot() });
+        }
+    }
+
+    private leave(client: Client): void {
+        const room = client.room;
+        if (!room) return;
+        client.room = null;
+        room.clients.delete(client);
+        for (const p of ["SENTE", "GOTE"] as const) {
+            const holder = room.seats[p];
+            if (holder?.client === client) holder.client = null;
+        }
+        room.updateClock();
+        room.broadcastState();
+        if (room.clients.size === 0) room.expiry = setTimeout(() => this.removeRoom(room), ROOM_TTL);
+    }
+
+    private removeRoom(room: Room): void {
+        room.dispose();
+        if (room.expiry !== undefined) clearTimeout(room.expiry);
+        this.rooms.delete(room.name);
+    }
+
+    private send(client: Client, msg: ServerMessage): void {
+        client.ws.send(JSON.stringify(msg));
+    }
+
+    private sendError(client: Client, message: string): void {
+        this.send(client, { type: "error", message });
+    }
+}
+
+// 部屋を作る人が送ってきた持ち時間（不正なら持ち時間なし）
+function validTimeControl(tc: TimeControl | undefined): TimeControl | undefined {
+    if (!tc || typeof tc !== "object") return undefined;
+    const ms = (v: unknown) => v === undefined || v === 0 || (typeof v === "number" && Number.isFinite(v) && v >= MIN_TIME_MS);
+    const periods = tc.byoyomiPeriods === undefined || (Number.isInteger(tc.byoyomiPeriods) && tc.byoyomiPeriods >= 1);
+    const increment = tc.incrementMs === undefined || (typeof tc.incrementMs === "number" && Number.isFinite(tc.incrementMs) && tc.incrementMs >= 0);
+    if (typeof tc.mainMs !== "number" || !ms(tc.mainMs) || !ms(tc.byoyomiMs) || !periods || !increment) return undefined;
+    if (tc.mainMs === 0 && !tc.byoyomiMs) return undefined;
+    return { mainMs: tc.mainMs, byoyomiMs: tc.byoyomiMs, byoyomiPeriods: tc.byoyomiPeriods, incrementMs: tc.incrementMs };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = process.argv[2] ? Number(process.argv[2]) : DEFAULT_PORT;
+    new ShogiServer().listen(port).then((p) => process.stdout.write(`http://localhost:${p}/\n`));
+}
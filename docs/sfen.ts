@@ -0,0 +1,239 @@
+// sfen.ts
+
+import { Board, Hand, Handicap, InitialSetup, Move, Piece, PieceType, Player, Position, Square } from "./main.js";
+
+// =====================
+// 文字 <-> 駒種
+// =====================
+
+const LETTER_TO_TYPE: Record<string, PieceType> = {
+    P: PieceType.FU,
+    L: PieceType.KY,
+    N: PieceType.KE,
+    S: PieceType.GI,
+    G: PieceType.KI,
+    B: PieceType.KA,
+    R: PieceType.HI,
+    K: PieceType.OU,
+};
+
+const TYPE_TO_LETTER: Record<PieceType, string> = {
+    [PieceType.FU]: "P",
+    [PieceType.KY]: "L",
+    [PieceType.KE]: "N",
+    [PieceType.GI]: "S",
+    [PieceType.KI]: "G",
+    [PieceType.KA]: "B",
+    [PieceType.HI]: "R",
+    [PieceType.OU]: "K",
+};
+
+// 持ち駒の出力順（SFEN 慣習: 飛 角 金 銀 桂 香 歩）
+const HAND_ORDER: PieceType[] = [
+    PieceType.HI,
+    PieceType.KA,
+    PieceType.KI,
+    PieceType.GI,
+    PieceType.KE,
+    PieceType.KY,
+    PieceType.FU,
+];
+
+// 段は a..i（1段目 = a）
+const RANK_LETTERS = "abcdefghi";
+
+export const STANDARD_SFEN = "lnsgkgsnl/1r5b1/ppppppppp/9/9/9/PPPPPPPPP/1B5R1/LNSGKGSNL b - 1";
+
+export type SfenRecord = {
+    position: Position;
+    moveNumber: number;
+};
+
+// =====================
+// SFEN 本体
+// =====================
+
+export class Sfen {
+    // "盤面 手番 持ち駒 手数" を Position に
+    static parse(sfen: string): SfenRecord {
+        const fields = sfen.trim().split(/\s+/);
+        if (fields.length < 3 || fields.length > 4) {
+            throw new Error(`SFEN: expected 3 or 4 fields, got ${fields.length}`);
+        }
+        const [boardField, turnField, handField, numberField] = fields;
+
+        const board = this.parseBoard(boardField);
+
+        let turn: Player;
+        if (turnField === "b") turn = "SENTE";
+        else if (turnField === "w") turn = "GOTE";
+        else throw new Error(`SFEN: side to move must be "b" or "w", got "${turnField}"`);
+
+        const hand = this.parseHand(handField);
+
+        let moveNumber = 1;
+        if (numberField !== undefined) {
+            if (!/^\d+$/.test(numberField) || Number(numberField) < 1) {
+                throw new Error(`SFEN: invalid move number "${numberField}"`);
+            }
+            moveNumber = Number(numberField);
+        }
+
+        return { position: new Position(board, hand, turn), moveNumber };
+    }
+
+    static stringify(pos: Position, moveNumber: number = 1): string {
+        return [
+            this.stringifyBoard(pos.board),
+            pos.turn === "SENTE" ? "b" : "w",
+            this.stringifyHand(pos.hand),
+            String(moveNumber),
+        ].join(" ");
+    }
+
+    // 手合割の初期局面（駒落ちは "w"）
+    static handicap(h: Handicap): string {
+        return this.stringify(InitialSetup.handicap(h));
+    }
+
+    private static parseBoard(field: string): Board {
+        const rows = field.split("/");
+        if (rows.length !== 9) throw new Error(`SFEN: expected 9 ranks, got ${rows.length}`);
+
+        const b = new Board();
+        rows.forEach((row, i) => {
+            const rank = i + 1;
+            let file = 9; // 左端が9筋
+            let promoted = false;
+            for (const ch of row) {
+                if (ch === "+") {
+                    if (promoted) throw new Error(`SFEN: duplicated "+" in rank ${rank}`);
+                    promoted = true;
+                    continue;
+                }
+                if (/[1-9]/.test(ch)) {
+                    if (promoted) throw new Error(`SFEN: "+" must be followed by a piece in rank ${rank}`);
+                    file -= Number(ch);
+                    if (file < 0) throw new Error(`SFEN: too many squares in rank ${rank}`);
+                    continue;
+                }
+                const type = LETTER_TO_TYPE[ch.toUpperCase()];
+                if (!type) throw new Error(`SFEN: unknown piece letter "${ch}" in rank ${rank}`);
+                if (promoted && (type === PieceType.KI || type === PieceType.OU)) {
+                    throw new Error(`SFEN: "${ch}" cannot be promoted (rank ${rank})`);
+                }
+                if (file < 1) throw new Error(`SFEN: too many squares in rank ${rank}`);
+                const owner: Player = ch === ch.toUpperCase() ? "SENTE" : "GOTE";
+                b.set({ file, rank }, new Piece(owner, type, promoted));
+                file--;
+                promoted = false;
+            }
+            if (promoted) throw new Error(`SFEN: "+" at end of rank ${rank}`);
+            if (file !== 0) throw new Error(`SFEN: rank ${rank} has ${9 - file} squares, expected 9`);
+        });
+        return b;
+    }
+
+    private static stringifyBoard(b: Board): string {
+        const rows: string[] = [];
+        for (let rank = 1; rank <= 9; rank++) {
+            let row = "";
+            let empty = 0;
+            for (let file = 9; file >= 1; file--) {
+                const p = b.get({ file, rank });
+                if (!p) {
+                    empty++;
+                    continue;
+                }
+                if (empty > 0) row += String(empty);
+                empty = 0;
+                row += this.pieceToString(p);
+            }
+            if (empty > 0) row += String(empty);
+            rows.push(row);
+        }
+        return rows.join("/");
+    }
+
+    private static parseHand(field: string): Hand {
+        const h = new Hand();
+        if (field === "-") return h;
+
+        const re = /(\d*)([A-Za-z])/y;
+        const seen = new Set<string>();
+        let idx = 0;
+        while (idx < field.length) {
+            re.lastIndex = idx;
+            const m = re.exec(field);
+            if (!m) throw new Error(`SFEN: malformed hand "${field}"`);
+            const [, digits, ch] = m;
+            const type = LETTER_TO_TYPE[ch.toUpperCase()];
+            if (!type) throw new Error(`SFEN: unknown piece letter "${ch}" in hand`);
+            if (type === PieceType.OU) throw new Error("SFEN: king cannot be in hand");
+            // "2P2P" のように同じ駒を2回書いたものは足し合わせずに弾く
+            if (seen.has(ch)) throw new Error(`SFEN: duplicated hand piece "${ch}"`);
+            seen.add(ch);
+            const n = digits === "" ? 1 : Number(digits);
+            if (n < 1) throw new Error(`SFEN: invalid hand count "${digits}${ch}"`);
+            const owner: Player = ch === ch.toUpperCase() ? "SENTE" : "GOTE";
+            h.add(owner, type, n);
+            idx = re.lastIndex;
+        }
+        return h;
+    }
+
+    private static stringifyHand(h: Hand): string {
+        let out = "";
+        for (const owner of ["SENTE", "GOTE"] as const) {
+            for (const t of HAND_ORDER) {
+                const n = h.get(owner, t);
+                if (n <= 0) continue;
+                const letter = owner === "SENTE" ? TYPE_TO_LETTER[t] : TYPE_TO_LETTER[t].toLowerCase();
+                out += (n > 1 ? String(n) : "") + letter;
+            }
+        }
+        return out === "" ? "-" : out;
+    }
+
+    static pieceToString(p: Piece): string {
+        const letter = TYPE_TO_LETTER[p.type];
+        return (p.promoted ? "+" : "") + (p.owner === "SENTE" ? letter : letter.toLowerCase());
+    }
+
+    // =====================
+    // USI 形式の指し手
+    // =====================
+
+    // "7g7f" / "7g7f+" / "P*5e"
+    static parseMove(usi: string): Move {
+        const s = usi.trim();
+        const drop = /^([PLNSGBR])\*([1-9][a-i])$/.exec(s);
+        if (drop) {
+            return { kind: "DROP", pieceType: LETTER_TO_TYPE[drop[1]], to: this.parseSquare(drop[2]) };
+        }
+        const mv = /^([1-9][a-i])([1-9][a-i])(\+?)$/.exec(s);
+        if (mv) {
+            const from = this.parseSquare(mv[1]);
+            const to = this.parseSquare(mv[2]);
+            return mv[3] ? { kind: "MOVE", from, to, promote: true } : { kind: "MOVE", from, to };
+        }
+        throw new Error(`USI: malformed move "${usi}"`);
+    }
+
+    static formatMove(mv: Move): string {
+        if (mv.kind === "DROP") {
+            return `${TYPE_TO_LETTER[mv.pieceType]}*${this.formatSquare(mv.to)}`;
+        }
+        return `${this.formatSquare(mv.from)}${this.formatSquare(mv.to)}${mv.promote ? "+" : ""}`;
+    }
+
+    static parseSquare(s: string): Square {
+        const m = /^([1-9])([a-i])$/.exec(s);
+        if (!m) throw new Error(`USI: malformed square "${s}"`);
+        return { file: Number(m[1]), rank: RANK_LETTERS.indexOf(m[2]) + 1 };
+    }
+
+    static formatSquare(s: Square): string {
+        return `${s.file}${RANK_LETTERS[s.rank - 1]}`;
+    }
+}
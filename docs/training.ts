@@ -0,0 +1,267 @@
+// training.ts
+// 詰将棋の練習。問題集を読み込み（答えの付いた問題は Tsume で確かめる）、攻め方の手を判定して
+// 玉方は最も長く逃れる応手を自動で指す。成績（解いた時間・連続正解・問題ごとの履歴）は Storage に残す。
+// DOM には触らないので、localStorage の代わりに何を渡しても動く。
+
+import { Game, IllegalReason, ILLEGAL_REASON_LABELS, Move, Player, Position, Rules, opposite } from "./main.js";
+import { Kif } from "./kif.js";
+import { Sfen } from "./sfen.js";
+import { Tsume } from "./tsume.js";
+
+// =====================
+// 型
+// =====================
+
+// length は詰みまでの手数（最短）。id は開始局面の SFEN
+export type TsumeProblem = { id: string; title: string; position: Position; answer: Move[] | null; length: number };
+
+export type ProblemSetIssue = { line: number; message: string };
+
+export type ProblemSet = { problems: TsumeProblem[]; issues: ProblemSetIssue[] };
+
+export type TrainingFeedback =
+    | { kind: "ILLEGAL"; reason: IllegalReason }
+    | { kind: "NOT_CHECK" }
+    | { kind: "NO_MATE"; escape: Move; length: number } // escape と応じると問題の手数（length）では詰まない
+    | { kind: "UNKNOWN" } // 読み切れなかった
+    | { kind: "CONTINUE"; reply: Move }
+    | { kind: "SOLVED"; timeMs: number };
+
+export type TrainingOptions = {
+    nodeLimit?: number; // 1回の Tsume.solve / Tsume.defend あたり
+    now?: () => number;
+};
+
+export type AttemptRecord = { at: number; solved: boolean; timeMs: number; mistakes: number };
+
+export type TrainingRecord = {
+    streak: number; // 間違えずに解いた問題の連続数
+    bestStreak: number;
+    history: Record<string, AttemptRecord[]>; // 問題の id ごとに新しい順
+};
+
+// localStorage / sessionStorage と同じ形
+export type KeyValueStorage = {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+};
+
+const DEFAULT_NODE_LIMIT = 100000;
+const STORAGE_KEY = "shogi-tsume-training";
+// 問題ごとに残す履歴の数
+const HISTORY_LENGTH = 20;
+
+// =====================
+// 問題集
+// =====================
+
+export class ProblemSetLoader {
+    // 1行1問 "SFEN [答えの指し手（USI）...]"。"#" で始まる行は次の問題の題名、空行は読み飛ばす。
+    // SFEN の持ち駒に玉方の持ち駒も書く（残り全部なら Tsume.withDefenderHand で作ったもの）
+    static parse(text: string, options: TrainingOptions = {}): ProblemSet {
+        const problems: TsumeProblem[] = [];
+        const issues: ProblemSetIssue[] = [];
+        let title = "";
+        text.split(/\r?\n/).forEach((raw, i) => {
+            const line = raw.trim();
+            if (line === "") return;
+            if (line.startsWith("#")) {
+                title = line.slice(1).trim();
+                return;
+            }
+            try {
+                problems.push(this.parseProblem(line, title || `第${problems.length + 1}問`, options));
+            } catch (e) {
+                issues.push({ line: i + 1, message: e instanceof Error ? e.message : String(e) });
+            }
+            title = "";
+        });
+        return { problems, issues };
+    }
+
+    private static parseProblem(line: string, title: string, options: TrainingOptions): TsumeProblem {
+        const fields = line.split(/\s+/);
+        const sfenFields = /^\d+$/.test(fields[3] ?? "") ? 4 : 3;
+        const position = Sfen.parse(fields.slice(0, sfenFields).join(" ")).position;
+        const answer = fields.slice(sfenFields).filter((f) => f !== "moves").map((f) => Sfen.parseMove(f));
+
+        const problems = Rules.validatePosition(position, { tsume: true });
+        if (problems.length > 0) throw new Error(`TRAINING: invalid position (${problems.map((p) => p.kind).join(", ")})`);
+        if (answer.length > 0) this.checkAnswer(position, answer);
+
+        const result = Tsume.solve(position, { fillDefenderHand: false, nodeLimit: options.nodeLimit ?? DEFAULT_NODE_LIMIT });
+        if (result.kind === "NO_MATE") throw new Error("TRAINING: no mate");
+        if (result.kind === "MATE" && answer.length > 0 && answer.length !== result.moves.length) {
+            throw new Error(`TRAINING: answer is ${answer.length} moves but the shortest mate is ${result.moves.length}`);
+        }
+        // 読み切れなくても、正しい答えが付いていればその手数で出す
+        if (result.kind === "UNKNOWN" && answer.length === 0) throw new Error("TRAINING: could not solve within the node limit");
+        return {
+            id: Sfen.stringify(position),
+            title,
+            position,
+            answer: answer.length > 0 ? answer : null,
+            length: result.kind === "MATE" ? result.moves.length : answer.length,
+        };
+    }
+
+    // 合法な手順で、攻め方は毎回王手をかけ、最後が詰みになっていること
+    private static checkAnswer(position: Position, answer: Move[]): void {
+        const attacker = position.turn;
+        let pos = position;
+        answer.forEach((mv, i) => {
+            const reason = Rules.validateMove(pos, mv);
+            if (reason) throw new Error(`TRAINING: answer move ${i + 1} (${Sfen.formatMove(mv)}) is illegal: ${reason}`);
+            pos = Game.applyMove(pos, mv);
+            if (pos.turn !== attacker && !Rules.isKingInCheck(pos, pos.turn)) {
+                throw new Error(`TRAINING: answer move ${i + 1} (${Sfen.formatMove(mv)}) is not a check`);
+            }
+        });
+        if (!Rules.isCheckmate(pos)) throw new Error("TRAINING: answer does not end in mate");
+    }
+}
+
+// =====================
+// 1問の練習
+// =====================
+
+export class TsumeSession {
+    readonly game: Game;
+    readonly attacker: Player;
+    // 王手でない手・詰まない手を指そうとした回数
+    mistakes = 0;
+
+    private readonly now: () => number;
+    private readonly startedAt: number;
+    private solvedIn: number | null = null;
+
+    constructor(
+        readonly problem: TsumeProblem,
+        private readonly options: TrainingOptions = {}
+    ) {
+        this.game = new Game(problem.position);
+        this.attacker = problem.position.turn;
+        this.now = options.now ?? Date.now;
+        this.startedAt = this.now();
+    }
+
+    isSolved(): boolean {
+        return this.solvedIn !== null;
+    }
+
+    elapsedMs(): number {
+        return this.solvedIn ?? this.now() - this.startedAt;
+    }
+
+    // 攻め方の次の手から詰みまで、問題の手数で残り何手か
+    remaining(): number {
+        return this.problem.length - this.game.getCurrentNode().ply;
+    }
+
+    // 正しい手なら盤に指して玉方の応手も指す。間違いなら盤はそのまま
+    play(mv: Move): TrainingFeedback {
+        const pos = this.game.pos;
+        if (this.solvedIn !== null) return { kind: "SOLVED", timeMs: this.solvedIn };
+        const reason = Rules.validateMove(pos, mv);
+        if (reason) return { kind: "ILLEGAL", reason };
+
+        const after = Game.applyMove(pos, mv);
+        if (!Rules.isKingInCheck(after, opposite(this.attacker))) {
+            this.mistakes++;
+            return { kind: "NOT_CHECK" };
+        }
+        // 余詰も含めて、問題の手数に収まる詰みなら正解にする
+        const defense = Tsume.defend(after, this.remaining() - 1, { nodeLimit: this.nodeLimit() });
+        if (defense.kind === "UNKNOWN") return { kind: "UNKNOWN" };
+        if (defense.kind === "ESCAPE") {
+            this.mistakes++;
+            return { kind: "NO_MATE", escape: defense.move, length: this.problem.length };
+        }
+        this.playOrThrow(mv);
+        if (defense.moves.length === 0) {
+            this.solvedIn = this.now() - this.startedAt;
+            return { kind: "SOLVED", timeMs: this.solvedIn };
+        }
+        // 玉方はいちばん長く逃れる応手
+        const reply = defense.moves[0];
+        this.playOrThrow(reply);
+        return { kind: "CONTINUE", reply };
+    }
+
+    // 開始局面に戻す（時間と間違いの数はそのまま）
+    retry(): void {
+        if (!this.isSolved()) this.game.reset();
+    }
+
+    // 今の局面からの詰み手順（開始局面で答えが付いていればそれ）
+    solution(): Move[] | null {
+        if (this.game.getCurrentNode().ply === 0 && this.problem.answer) return this.problem.answer;
+        const result = Tsume.solve(this.game.pos, { fillDefenderHand: false, nodeLimit: this.nodeLimit() });
+        return result.kind === "MATE" ? result.moves : null;
+    }
+
+    // -------- 内部 --------
+
+    // 詰将棋の対局は時計も投了もないので、ここで指せないのはおかしい
+    private playOrThrow(mv: Move): void {
+        const rejected = this.game.play(mv);
+        if (rejected !== null) throw new Error(`TRAINING: could not play ${Sfen.formatMove(mv)} (${rejected})`);
+    }
+
+    private nodeLimit(): number {
+        return this.options.nodeLimit ?? DEFAULT_NODE_LIMIT;
+    }
+}
+
+// pos は手を指す前の局面
+export function describeFeedback(pos: Position, mv: Move, f: TrainingFeedback): string {
+    switch (f.kind) {
+        case "ILLEGAL":
+            return `指せない手です（${ILLEGAL_REASON_LABELS[f.reason]}）`;
+        case "NOT_CHECK":
+            return "王手ではありません。詰将棋では攻め方は毎回王手をかけます";
+        case "NO_MATE":
+            return `不正解: ${Kif.formatKi2Move(Game.applyMove(pos, mv), f.escape, mv.to)}と応じられると${f.length}手では詰みません`;
+        case "UNKNOWN":
+            return "この手が正しいか読み切れませんでした";
+        case "CONTINUE":
+            return `正解です。${Kif.formatKi2Move(Game.applyMove(pos, mv), f.reply, mv.to)}と応じました`;
+        case "SOLVED":
+            return `詰みました（${Math.round(f.timeMs / 1000)}秒）`;
+    }
+}
+
+// =====================
+// 成績
+// =====================
+
+export class TrainingStats {
+    constructor(
+        private readonly storage: KeyValueStorage,
+        private readonly key: string = STORAGE_KEY
+    ) { }
+
+    get(): TrainingRecord {
+        try {
+            const saved = JSON.parse(this.storage.getItem(this.key) ?? "null");
+            if (saved && typeof saved.streak === "number" && saved.history) return saved;
+        } catch {
+            // 壊れていれば最初から
+        }
+        return { streak: 0, bestStreak: 0, history: {} };
+    }
+
+    history(problemId: string): AttemptRecord[] {
+        return this.get().history[problemId] ?? [];
+    }
+
+    // 1回の挑戦を残す。間違えずに解けたときだけ連続正解が伸びる
+    record(problemId: string, attempt: AttemptRecord): TrainingRecord {
+        const rec = this.get();
+        rec.history[problemId] = [attempt, ...(rec.history[problemId] ?? [])].slice(0, HISTORY_LENGTH);
+        rec.streak = attempt.solved && attempt.mistakes === 0 ? rec.streak + 1 : 0;
+        rec.bestStreak = Math.max(rec.bestStreak, rec.streak);
+        this.storage.setItem(this.key, JSON.stringify(rec));
+        return rec;
+    }
+}
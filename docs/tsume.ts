@@ -0,0 +1,331 @@
+// tsume.ts
+// 詰将棋ソルバー（df-pn）。攻め方は王手だけ、玉方はすべての応手を読む。
+// 指し手生成は Rules そのもの（打ち歩詰め・二歩などの扱いも Rules と同じ）。
+
+import { Game, Hand, Move, PieceType, Player, Position, Rules, opposite } from "./main.js";
+
+// =====================
+// 型
+// =====================
+
+export type TsumeOptions = {
+    // 展開する局面数の上限（df-pn と手順の確定の合計）
+    nodeLimit?: number;
+    // 盤上と攻め方の持ち駒以外を玉方の持ち駒にする（詰将棋の約束）
+    fillDefenderHand?: boolean;
+    // AbortSignal 互換。探索中に aborted になれば UNKNOWN で止まる
+    signal?: { readonly aborted: boolean };
+};
+
+// moves は攻め方の初手から詰みまで。alternatives は正解手順の途中で
+// 別の王手でも残り手数以内に詰む箇所（余詰）
+export type TsumeResult =
+    | { kind: "MATE"; moves: Move[]; unique: boolean; alternatives: Array<{ ply: number; move: Move }>; nodes: number }
+    | { kind: "NO_MATE"; nodes: number }
+    | { kind: "UNKNOWN"; nodes: number };
+
+// Tsume.defend の結果。moves は玉方の応手から詰みまで（いちばん長く逃れる手順）、
+// ESCAPE の move はそう応じると制限の手数以内には詰まない応手
+export type TsumeDefense =
+    | { kind: "MATE"; moves: Move[]; nodes: number }
+    | { kind: "ESCAPE"; move: Move; nodes: number }
+    | { kind: "UNKNOWN"; nodes: number };
+
+const DEFAULT_NODE_LIMIT = 200000;
+const INF = 1e9;
+
+// 一組の駒数（玉を除く）
+const PIECE_TOTALS: Array<[PieceType, number]> = [
+    [PieceType.FU, 18],
+    [PieceType.KY, 4],
+    [PieceType.KE, 4],
+    [PieceType.GI, 4],
+    [PieceType.KI, 4],
+    [PieceType.KA, 2],
+    [PieceType.HI, 2],
+];
+
+type Child = { move: Move; position: Position; key: string };
+
+type Entry = {
+    pn: number;
+    dn: number;
+    len: number; // 証明済みのとき、証明木での詰み手数（最短とは限らない）
+    children?: Child[];
+};
+
+// 詰み手順: len 手、攻め方が打った駒 spent 枚
+type Line = { len: number; spent: number; moves: Move[] };
+
+// 打ち切り用（ノード数の上限と signal）
+class NodeLimitExceeded extends Error { }
+
+// =====================
+// ソルバー
+// =====================
+
+export class Tsume {
+    static solve(pos: Position, options: TsumeOptions = {}): TsumeResult {
+        const root = options.fillDefenderHand === false ? pos : this.withDefenderHand(pos);
+        const problems = Rules.validatePosition(root, { tsume: true });
+        if (problems.length > 0) throw new Error(`Tsume: invalid position (${problems.map((p) => p.kind).join(", ")})`);
+        const solver = new DfPnSolver(root, options.nodeLimit ?? DEFAULT_NODE_LIMIT, options.signal);
+        return solver.run();
+    }
+
+    // 玉方の手番の局面（攻め方が王手をかけた直後）で、どう応じても maxLength 手以内に詰むか。
+    // 局面はそのまま使う（持ち駒を足したり局面を確かめたりはしない）
+    static defend(pos: Position, maxLength: number, options: Pick<TsumeOptions, "nodeLimit" | "signal"> = {}): TsumeDefense {
+        const solver = new DfPnSolver(pos, options.nodeLimit ?? DEFAULT_NODE_LIMIT, options.signal);
+        return solver.runDefense(maxLength);
+    }
+
+    // 盤上にも攻め方の持ち駒にもない駒を、すべて玉方の持ち駒にした局面
+    static withDefenderHand(pos: Position): Position {
+        const attacker = pos.turn;
+        const defender = opposite(attacker);
+        const hand = new Hand();
+        for (const [t, total] of PIECE_TOTALS) {
+            let used = pos.hand.get(attacker, t);
+            for (const { piece } of pos.board.entries()) if (piece.type === t) used++;
+            if (used > total) throw new Error(`Tsume: too many ${t} (${used} > ${total})`);
+            if (pos.hand.get(attacker, t) > 0) hand.add(attacker, t, pos.hand.get(attacker, t));
+            if (total - used > 0) hand.add(defender, t, total - used);
+        }
+        return new Position(pos.board.clone(), hand, attacker);
+    }
+}
+
+class DfPnSolver {
+    private readonly table = new Map<string, Entry>();
+    private readonly attacker: Player;
+    private nodes = 0;
+
+    // 手順確定用: 詰み手順のわかった局面と、n 手以内に詰まないとわかった局面
+    private readonly exact = new Map<string, Line>();
+    private readonly noMateWithin = new Map<string, number>();
+
+    constructor(
+        private readonly root: Position,
+        private readonly nodeLimit: number,
+        private readonly signal?: { readonly aborted: boolean }
+    ) {
+        this.attacker = root.turn;
+    }
+
+    run(): TsumeResult {
+        const rootKey = this.root.key();
+        const path = new Set<string>();
+        try {
+            this.mid(this.root, rootKey, true, INF, INF, path);
+        } catch (e) {
+            if (e instanceof NodeLimitExceeded) return { kind: "UNKNOWN", nodes: this.nodes };
+            throw e;
+        }
+
+        const e = this.entry(rootKey);
+        if (e.dn === 0) return { kind: "NO_MATE", nodes: this.nodes };
+        if (e.pn !== 0) return { kind: "UNKNOWN", nodes: this.nodes };
+
+        // df-pn の証明木は最短とは限らないので、その手数を上限に最短手順を確定させる
+        try {
+            let line: Line | null = null;
+            for (let limit = 1; limit <= e.len && !line; limit += 2) line = this.attack(this.root, limit);
+            if (!line) return { kind: "UNKNOWN", nodes: this.nodes };
+            const alternatives = this.findAlternatives(line);
+            return { kind: "MATE", moves: line.moves, unique: alternatives.length === 0, alternatives, nodes: this.nodes };
+        } catch (err) {
+            if (err instanceof NodeLimitExceeded) return { kind: "UNKNOWN", nodes: this.nodes };
+            throw err;
+        }
+    }
+
+    runDefense(limit: number): TsumeDefense {
+        try {
+            const line = this.defend(this.root, limit);
+            if (line) return { kind: "MATE", moves: line.moves, nodes: this.nodes };
+            for (const mv of Rules.generateLegalMoves(this.root)) {
+                if (limit < 2 || !this.attack(Game.applyMove(this.root, mv), limit - 1)) return { kind: "ESCAPE", move: mv, nodes: this.nodes };
+            }
+            return { kind: "UNKNOWN", nodes: this.nodes };
+        } catch (err) {
+            if (err instanceof NodeLimitExceeded) return { kind: "UNKNOWN", nodes: this.nodes };
+            throw err;
+        }
+    }
+
+    // -------- df-pn --------
+
+    // or: 攻め方の手番。閾値を超えるまで最良の子を掘る
+    private mid(pos: Position, key: string, or: boolean, thpn: number, thdn: number, path: Set<string>): void {
+        const e = this.entry(key);
+        if (e.pn >= thpn || e.dn >= thdn) return;
+        this.countNode();
+
+        const children = this.expand(pos, e, or);
+        if (children.length === 0) {
+            // 王手がない = 不詰、応手がない = 詰み
+            if (or) Object.assign(e, { pn: INF, dn: 0 });
+            else Object.assign(e, { pn: 0, dn: INF, len: 0 });
+            return;
+        }
+
+        path.add(key);
+        for (; ;) {
+            this.aggregate(e, children, or, path);
+            if (e.pn >= thpn || e.dn >= thdn) break;
+
+            // OR は pn 最小、AND は dn 最小の子を選び、2番目との差の分だけ閾値を渡す
+            let best = -1;
+            let bestValue = INF + 1;
+            let second = INF;
+            children.forEach((c, i) => {
+                if (path.has(c.key)) return;
+                const ce = this.entry(c.key);
+                const v = or ? ce.pn : ce.dn;
+                if (v < bestValue) {
+                    second = bestValue;
+                    bestValue = v;
+                    best = i;
+                } else if (v < second) {
+                    second = v;
+                }
+            });
+            if (best < 0) break;
+
+            const c = children[best];
+            const ce = this.entry(c.key);
+            if (or) {
+                this.mid(c.position, c.key, false, Math.min(thpn, second + 1), thdn - e.dn + ce.dn, path);
+            } else {
+                this.mid(c.position, c.key, true, thpn - e.pn + ce.pn, Math.min(thdn, second + 1), path);
+            }
+        }
+        path.delete(key);
+    }
+
+    // 子から pn / dn を計算する。経路上に戻る子（千日手）は不詰扱い
+    private aggregate(e: Entry, children: Child[], or: boolean, path: Set<string>): void {
+        let minValue = INF;
+        let sum = 0;
+        let minLen = INF;
+        let maxLen = 0;
+        for (const c of children) {
+            const ce = path.has(c.key) ? { pn: INF, dn: 0, len: 0 } : this.entry(c.key);
+            const [a, b] = or ? [ce.pn, ce.dn] : [ce.dn, ce.pn];
+            minValue = Math.min(minValue, a);
+            sum = Math.min(INF, sum + b);
+            if (ce.pn === 0) {
+                minLen = Math.min(minLen, ce.len);
+                maxLen = Math.max(maxLen, ce.len);
+            }
+        }
+        if (or) {
+            e.pn = minValue;
+            e.dn = sum;
+            if (e.pn === 0) e.len = minLen + 1;
+        } else {
+            e.dn = minValue;
+            e.pn = sum;
+            if (e.pn === 0) e.len = maxLen + 1;
+        }
+    }
+
+    private entry(key: string): Entry {
+        let e = this.table.get(key);
+        if (!e) {
+            e = { pn: 1, dn: 1, len: 0 };
+            this.table.set(key, e);
+        }
+        return e;
+    }
+
+    private expand(pos: Position, e: Entry, or: boolean): Child[] {
+        if (!e.children) {
+            e.children = (or ? this.checks(pos) : Rules.generateLegalMoves(pos)).map((move) => {
+                const position = Game.applyMove(pos, move);
+                return { move, position, key: position.key() };
+            });
+        }
+        return e.children;
+    }
+
+    // 攻め方の王手だけ
+    private checks(pos: Position): Move[] {
+        const defender = opposite(pos.turn);
+        return Rules.generateLegalMoves(pos).filter((mv) => Rules.isKingInCheck(Game.applyMove(pos, mv), defender));
+    }
+
+    private countNode(): void {
+        if (++this.nodes > this.nodeLimit) throw new NodeLimitExceeded();
+        if ((this.nodes & 1023) === 0 && this.signal?.aborted) throw new NodeLimitExceeded();
+    }
+
+    // -------- 最短手順の確定 --------
+
+    // 攻め方の手番で limit 手以内に詰む最短手順（同手数なら打った駒の少ない方）
+    private attack(pos: Position, limit: number): Line | null {
+        const key = pos.key();
+        const known = this.exact.get(key);
+        if (known) return known.len <= limit ? known : null;
+        if ((this.noMateWithin.get(key) ?? -1) >= limit || limit < 1) return null;
+        this.countNode();
+
+        let best: Line | null = null;
+        for (const mv of this.checks(pos)) {
+            const r = this.defend(Game.applyMove(pos, mv), limit - 1);
+            if (!r) continue;
+            const line = { len: r.len + 1, spent: r.spent + (mv.kind === "DROP" ? 1 : 0), moves: [mv, ...r.moves] };
+            if (!best || line.len < best.len || (line.len === best.len && line.spent < best.spent)) best = line;
+        }
+        if (best) this.exact.set(key, best);
+        else this.noMateWithin.set(key, limit);
+        return best;
+    }
+
+    // 玉方の手番: どの応手でも limit 手以内に詰むなら、いちばん長く逃れる手順
+    private defend(pos: Position, limit: number): Line | null {
+        const key = pos.key();
+        const known = this.exact.get(key);
+        if (known) return known.len <= limit ? known : null;
+        if ((this.noMateWithin.get(key) ?? -1) >= limit) return null;
+        this.countNode();
+
+        const replies = Rules.generateLegalMoves(pos);
+        if (replies.length === 0) {
+            const mated = { len: 0, spent: 0, moves: [] };
+            this.exact.set(key, mated);
+            return mated;
+        }
+
+        let worst: Line | null = null;
+        for (const mv of replies) {
+            const r = limit >= 2 ? this.attack(Game.applyMove(pos, mv), limit - 1) : null;
+            if (!r) {
+                this.noMateWithin.set(key, limit);
+                return null;
+            }
+            const line = { len: r.len + 1, spent: r.spent, moves: [mv, ...r.moves] };
+            if (!worst || line.len > worst.len || (line.len === worst.len && line.spent > worst.spent)) worst = line;
+        }
+        this.exact.set(key, worst!);
+        return worst;
+    }
+
+    // 正解手順の攻め方の各手で、別の王手でも残り手数以内に詰むか
+    private findAlternatives(line: Line): Array<{ ply: number; move: Move }> {
+        const out: Array<{ ply: number; move: Move }> = [];
+        let pos = this.root;
+        line.moves.forEach((mv, i) => {
+            if (i % 2 === 0) {
+                const remaining = line.len - i;
+                for (const alt of this.checks(pos)) {
+                    if (Rules.sameMove(alt, mv)) continue;
+                    if (this.defend(Game.applyMove(pos, alt), remaining - 1)) out.push({ ply: i + 1, move: alt });
+                }
+            }
+            pos = Game.applyMove(pos, mv);
+        });
+        return out;
+    }
+}
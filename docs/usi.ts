@@ -0,0 +1,540 @@
+// usi.ts
+// USI プロトコルのエンジン側（標準入出力）。`node usi.js` で起動して将棋 GUI に登録する。
+// 探索は worker_threads で回し、stop / ponderhit / quit はメインスレッドで受ける。
+
+import { readFileSync } from "node:fs";
+import { createInterface } from "node:readline";
+import { Worker, isMainThread, parentPort } from "node:worker_threads";
+import { DeclarationRule, Game, Position, Rules } from "./main.js";
+import { OpeningBook } from "./book.js";
+import { Engine, MATE_SCORE, SearchInfo, isMateScore } from "./engine.js";
+import { Sfen, STANDARD_SFEN } from "./sfen.js";
+import { Tsume } from "./tsume.js";
+
+// =====================
+// メインスレッドとワーカーのやりとり
+// =====================
+
+type SearchRequest = {
+    sfen: string;
+    moves: string[];
+    maxDepth?: number;
+    nodeLimit?: number;
+    seed: number;
+    randomness: number;
+};
+
+type ToWorker =
+    | { type: "init"; ttBits: number; stopFlag: SharedArrayBuffer }
+    | { type: "clear" }
+    | { type: "search"; request: SearchRequest }
+    | { type: "mate"; sfen: string; moves: string[]; nodeLimit: number };
+
+type FromWorker =
+    | { type: "info"; info: UsiInfo }
+    | { type: "bestmove"; move: string | null; ponder: string | null; score: number }
+    | { type: "checkmate"; moves: string[] | null; timeout: boolean }
+    | { type: "error"; message: string }; // search / mate の処理中に例外
+
+// 指し手は USI 文字列にしてから渡す
+type UsiInfo = Omit<SearchInfo, "pv"> & { pv: string[] };
+
+// =====================
+// go の引数
+// =====================
+
+type GoParams = {
+    btime?: number;
+    wtime?: number;
+    byoyomi?: number;
+    binc?: number;
+    winc?: number;
+    movetime?: number;
+    depth?: number;
+    nodes?: number;
+    infinite: boolean;
+    ponder: boolean;
+    mate?: number | "infinite";
+};
+
+function parseGo(tokens: string[]): GoParams {
+    const go: GoParams = { infinite: false, ponder: false };
+    for (let i = 0; i < tokens.length; i++) {
+        const t = tokens[i];
+        const next = (): number => Number(tokens[++i]);
+        switch (t) {
+            case "btime": go.btime = next(); break;
+            case "wtime": go.wtime = next(); break;
+            case "byoyomi": go.byoyomi = next(); break;
+            case "binc": go.binc = next(); break;
+            case "winc": go.winc = next(); break;
+            case "movetime": go.movetime = next(); break;
+            case "depth": go.depth = next(); break;
+            case "nodes": go.nodes = next(); break;
+            case "infinite": go.infinite = true; break;
+            case "ponder": go.ponder = true; break;
+            case "mate":
+                go.mate = tokens[i + 1] === "infinite" ? "infinite" : Number(tokens[i + 1]);
+                i++;
+                break;
+        }
+    }
+    return go;
+}
+
+// 持ち時間から今回の思考時間（ms）を決める。時間の指定がなければ undefined
+function timeBudget(go: GoParams, pos: Position, margin: number): number | undefined {
+    if (go.movetime !== undefined) return Math.max(10, go.movetime - margin);
+    const sente = pos.turn === "SENTE";
+    const rest = (sente ? go.btime : go.wtime) ?? 0;
+    const inc = (sente ? go.binc : go.winc) ?? 0;
+    const byoyomi = go.byoyomi ?? 0;
+    if (go.btime === undefined && go.wtime === undefined && !byoyomi && !inc) return undefined;
+
+    // 残り時間の 1/40 に加算・秒読みを足す。使い切らないように上限をかける
+    const budget = rest / 40 + inc + byoyomi - margin;
+    const hardLimit = rest + inc + byoyomi - margin;
+    return Math.max(10, Math.min(budget, hardLimit));
+}
+
+// =====================
+// 局面
+// =====================
+
+function buildPosition(sfen: string, moves: string[]): Position {
+    let pos = Sfen.parse(sfen).position;
+    for (const usi of moves) {
+        const mv = Sfen.parseMove(usi);
+        if (!Rules.isLegal(pos, mv)) throw new Error(`USI: illegal move "${usi}"`);
+        pos = Game.applyMove(pos, mv);
+    }
+    return pos;
+}
+
+// "position startpos moves ..." / "position sfen <4欄> moves ..."
+function parsePositionCommand(tokens: string[]): { sfen: string; moves: string[] } {
+    let i = 0;
+    let sfen: string;
+    if (tokens[i] === "startpos") {
+        sfen = STANDARD_SFEN;
+        i++;
+    } else if (tokens[i] === "sfen") {
+        const end = tokens.indexOf("moves");
+        const fields = tokens.slice(1, end < 0 ? tokens.length : end);
+        sfen = fields.join(" ");
+        i = 1 + fields.length;
+    } else {
+        throw new Error(`USI: expected "startpos" or "sfen", got "${tokens[i] ?? ""}"`);
+    }
+    const moves = tokens[i] === "moves" ? tokens.slice(i + 1) : [];
+    return { sfen, moves };
+}
+
+function formatInfo(info: UsiInfo): string {
+    const score = isMateScore(info.score)
+        ? `mate ${info.score > 0 ? MATE_SCORE - info.score : -(MATE_SCORE + info.score)}`
+        : `cp ${info.score}`;
+    const nps = info.timeMs > 0 ? Math.floor((info.nodes * 1000) / info.timeMs) : info.nodes;
+    const pv = info.pv.length > 0 ? ` pv ${info.pv.join(" ")}` : "";
+    return `info depth ${info.depth} score ${score} nodes ${info.nodes} nps ${nps} time ${info.timeMs}${pv}`;
+}
+
+// =====================
+// メインスレッド（USI の受け答え）
+// =====================
+
+class UsiFrontend {
+    private readonly options = {
+        USI_Hash: 32,
+        USI_Ponder: false,
+        Seed: 0,
+        Randomness: 0,
+        ByoyomiMargin: 100,
+        MateNodeLimit: 200000,
+        DeclarationRule: "27" as DeclarationRule,
+    };
+    // BookFile で読み込んだ定跡（bookbuild.js で作ったもの）
+    private book: OpeningBook | undefined;
+
+    private worker: Worker | undefined;
+    private readonly stopFlag = new Int32Array(new SharedArrayBuffer(4));
+    private sfen = STANDARD_SFEN;
+    private moves: string[] = [];
+
+    // 探索中の状態
+    private searching = false;
+    private mating = false; // go mate（返事は bestmove でなく checkmate）
+    private waitForStop = false; // infinite / ponder: stop か ponderhit まで bestmove を出さない
+    private pending: string | undefined; // 先に探索が終わったときの bestmove 行
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private budgetAfterPonderhit: number | undefined;
+    private quitting = false;
+    private inputClosed = false;
+    private readonly queue: string[] = [];
+
+    constructor(private readonly write: (line: string) => void) { }
+
+    start(): void {
+        const rl = createInterface({ input: process.stdin });
+        rl.on("line", (line) => this.receive(line.trim()));
+        rl.on("close", () => this.endOfInput());
+    }
+
+    // 探索中は stop / ponderhit / isready だけすぐ処理し、ほかは探索が終わってから順番に処理する
+    // （入力ファイルを流し込んだときも1行ずつ指示どおりに動く）
+    private receive(line: string): void {
+        const cmd = line.split(/\s+/)[0];
+        const immediate = cmd === "stop" || cmd === "ponderhit" || cmd === "isready" || (cmd === "quit" && this.queue.length === 0);
+        if ((this.searching || this.queue.length > 0) && !immediate) {
+            this.queue.push(line);
+            return;
+        }
+        this.dispatch(line);
+    }
+
+    private dispatch(line: string): void {
+        try {
+            this.handle(line);
+        } catch (e) {
+            this.write(`info string ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+
+    private drain(): void {
+        while (!this.searching && this.queue.length > 0) this.dispatch(this.queue.shift()!);
+        if (!this.searching && this.inputClosed) this.shutdown();
+    }
+
+    private handle(line: string): void {
+        if (line === "") return;
+        const [cmd, ...args] = line.split(/\s+/);
+        switch (cmd) {
+            case "usi":
+                this.write("id name public-typescript-shogi");
+                this.write("id author public-typescript-shogi");
+                this.write(`option name USI_Hash type spin default ${this.options.USI_Hash} min 1 max 1024`);
+                this.write("option name USI_Ponder type check default false");
+                this.write("option name Seed type spin default 0 min 0 max 2147483647");
+                this.write("option name Randomness type spin default 0 min 0 max 500");
+                this.write(`option name ByoyomiMargin type spin default ${this.options.ByoyomiMargin} min 0 max 10000`);
+                this.write(`option name MateNodeLimit type spin default ${this.options.MateNodeLimit} min 1000 max 100000000`);
+                this.write("option name DeclarationRule type combo default 27 var 24 var 27");
+                this.write("option name BookFile type string default <empty>");
+                this.write("usiok");
+                return;
+            case "isready":
+                this.ensureWorker();
+                this.write("readyok");
+                return;
+            case "setoption":
+                this.setOption(args);
+                return;
+            case "usinewgame":
+                this.send({ type: "clear" });
+                return;
+            case "position": {
+                const { sfen, moves } = parsePositionCommand(args);
+                buildPosition(sfen, moves); // 不正な局面はここで弾く
+                this.sfen = sfen;
+                this.moves = moves;
+                return;
+            }
+            case "go":
+                this.go(parseGo(args));
+                return;
+            case "stop":
+                this.stop();
+                return;
+            case "ponderhit":
+                this.ponderhit();
+                return;
+            case "gameover":
+                return;
+            case "quit":
+                this.quit();
+                return;
+            default:
+                this.write(`info string unknown command "${cmd}"`);
+        }
+    }
+
+    private setOption(args: string[]): void {
+        const nameAt = args.indexOf("name");
+        const valueAt = args.indexOf("value");
+        const name = args.slice(nameAt + 1, valueAt < 0 ? args.length : valueAt).join(" ");
+        const value = valueAt < 0 ? "" : args.slice(valueAt + 1).join(" ");
+        switch (name) {
+            case "USI_Hash": {
+                this.options.USI_Hash = Number(value);
+                // 置換表の大きさを変えるのでワーカーを作り直す
+                this.worker?.terminate();
+                this.worker = undefined;
+                return;
+            }
+            case "USI_Ponder": this.options.USI_Ponder = value === "true"; return;
+            case "Seed": this.options.Seed = Number(value); return;
+            case "Randomness": this.options.Randomness = Number(value); return;
+            case "ByoyomiMargin": this.options.ByoyomiMargin = Number(value); return;
+            case "MateNodeLimit": this.options.MateNodeLimit = Number(value); return;
+            case "DeclarationRule":
+                if (value !== "24" && value !== "27") throw new Error(`USI: DeclarationRule must be 24 or 27, got "${value}"`);
+                this.options.DeclarationRule = value;
+                return;
+            case "BookFile":
+                this.book = value === "" || value === "<empty>" ? undefined : OpeningBook.deserialize(readFileSync(value));
+                if (this.book) this.write(`info string book ${this.book.positionCount()} positions`);
+                return;
+            default:
+                this.write(`info string unknown option "${name}"`);
+        }
+    }
+
+    private go(go: GoParams): void {
+        if (this.searching) throw new Error("USI: go while searching");
+        const pos = buildPosition(this.sfen, this.moves);
+
+        if (go.mate !== undefined) {
+            this.goMate(go.mate);
+            return;
+        }
+
+        // 入玉宣言できるなら探索しない
+        if (Rules.evaluateDeclaration(pos, pos.turn, this.options.DeclarationRule) === "WIN") {
+            this.write("bestmove win");
+            return;
+        }
+
+        const unlimited = go.infinite || go.ponder;
+        // 定跡にあれば探索しない（検討の infinite と ponder では探索する）
+        const bookMove = unlimited ? null : this.book?.pick(pos);
+        if (bookMove) {
+            this.write(`bestmove ${Sfen.formatMove(bookMove)}`);
+            return;
+        }
+
+        const budget = timeBudget(go, pos, this.options.ByoyomiMargin);
+        Atomics.store(this.stopFlag, 0, 0);
+        this.searching = true;
+        this.mating = false;
+        this.waitForStop = unlimited;
+        this.pending = undefined;
+        this.budgetAfterPonderhit = go.ponder ? budget : undefined;
+
+        const request: SearchRequest = {
+            sfen: this.sfen,
+            moves: this.moves,
+            seed: this.options.Seed,
+            randomness: this.options.Randomness,
+            maxDepth: go.depth,
+            nodeLimit: go.nodes,
+        };
+        // 時間も深さもノード数も指定がなければ既定の深さで止める
+        if (!unlimited && budget === undefined && go.depth === undefined && go.nodes === undefined) request.maxDepth = 4;
+        this.send({ type: "search", request });
+        if (!unlimited && budget !== undefined) this.startTimer(budget);
+        // 入力が尽きていれば stop は来ない
+        if (unlimited && this.inputClosed) this.stop();
+    }
+
+    // 時間切れと stop は stopFlag で止め、ソルバーが UNKNOWN を返したら checkmate timeout
+    private goMate(limit: number | "infinite"): void {
+        Atomics.store(this.stopFlag, 0, 0);
+        this.searching = true;
+        this.mating = true;
+        this.waitForStop = false;
+        this.pending = undefined;
+        this.send({ type: "mate", sfen: this.sfen, moves: this.moves, nodeLimit: this.options.MateNodeLimit });
+        if (limit !== "infinite") this.startTimer(limit);
+    }
+
+    private startTimer(ms: number): void {
+        this.clearTimer();
+        this.timer = setTimeout(() => Atomics.store(this.stopFlag, 0, 1), ms);
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== undefined) clearTimeout(this.timer);
+        this.timer = undefined;
+    }
+
+    private stop(): void {
+        if (!this.searching) return;
+        this.waitForStop = false;
+        if (this.pending !== undefined) {
+            this.finish(this.pending);
+            return;
+        }
+        Atomics.store(this.stopFlag, 0, 1);
+    }
+
+    // 予想が当たったので、通常の持ち時間で探索を続ける
+    private ponderhit(): void {
+        if (!this.searching) return;
+        this.waitForStop = false;
+        if (this.pending !== undefined) {
+            this.finish(this.pending);
+            return;
+        }
+        if (this.budgetAfterPonderhit !== undefined) this.startTimer(this.budgetAfterPonderhit);
+    }
+
+    private quit(): void {
+        this.quitting = true;
+        if (!this.searching) {
+            this.shutdown();
+            return;
+        }
+        this.waitForStop = false;
+        if (this.pending !== undefined) this.finish(this.pending);
+        else Atomics.store(this.stopFlag, 0, 1);
+    }
+
+    // 入力が尽きたら、残りの行と時間で止まる探索を片付けてから抜ける
+    private endOfInput(): void {
+        this.inputClosed = true;
+        if (!this.searching) this.drain();
+        else if (this.waitForStop) this.stop();
+    }
+
+    private shutdown(): void {
+        this.clearTimer();
+        this.worker?.terminate();
+        this.worker = undefined;
+        process.exit(0);
+    }
+
+    private finish(line: string): void {
+        this.clearTimer();
+        this.searching = false;
+        this.pending = undefined;
+        this.write(line);
+        if (this.quitting) this.shutdown();
+        else this.drain();
+    }
+
+    private ensureWorker(): Worker {
+        if (this.worker) return this.worker;
+        const w = new Worker(new URL(import.meta.url));
+        // 置換表 1エントリは約 20 バイト
+        const ttBits = Math.max(10, Math.min(26, Math.floor(Math.log2((this.options.USI_Hash * 1024 * 1024) / 20))));
+        const init: ToWorker = { type: "init", ttBits, stopFlag: this.stopFlag.buffer as SharedArrayBuffer };
+        w.postMessage(init);
+        w.on("message", (msg: FromWorker) => this.onWorkerMessage(msg));
+        w.on("error", (e) => {
+            this.worker = undefined;
+            this.fail(e.message);
+        });
+        this.worker = w;
+        return w;
+    }
+
+    private send(msg: ToWorker): void {
+        this.ensureWorker().postMessage(msg);
+    }
+
+    private onWorkerMessage(msg: FromWorker): void {
+        switch (msg.type) {
+            case "info":
+                this.write(formatInfo(msg.info));
+                return;
+            case "bestmove": {
+                // 合法手がないか、詰まされるのが読み切れたら投了
+                const resign = msg.move === null || (isMateScore(msg.score) && msg.score < 0);
+                const line = resign
+                    ? "bestmove resign"
+                    : `bestmove ${msg.move}${msg.ponder && this.options.USI_Ponder ? ` ponder ${msg.ponder}` : ""}`;
+                if (this.waitForStop) this.pending = line;
+                else this.finish(line);
+                return;
+            }
+            case "checkmate":
+                if (!this.searching) return;
+                this.finish(msg.moves ? `checkmate ${msg.moves.join(" ")}` : msg.timeout ? "checkmate timeout" : "checkmate nomate");
+                return;
+            case "error":
+                this.fail(msg.message);
+                return;
+        }
+    }
+
+    // 探索が例外で終わった。理由を info string で出し、go mate なら詰みなし、go なら投了で返す
+    private fail(message: string): void {
+        this.write(`info string engine error: ${message}`);
+        if (!this.searching) return;
+        const line = this.mating ? "checkmate nomate" : "bestmove resign";
+        if (this.waitForStop) this.pending = line;
+        else this.finish(line);
+    }
+}
+
+// =====================
+// ワーカー（探索本体）
+// =====================
+
+function runWorker(): void {
+    const port = parentPort!;
+    let engine = new Engine();
+    let stopFlag = new Int32Array(new SharedArrayBuffer(4));
+    const signal = {
+        get aborted(): boolean {
+            return Atomics.load(stopFlag, 0) === 1;
+        },
+    };
+    const post = (msg: FromWorker) => port.postMessage(msg);
+
+    port.on("message", (msg: ToWorker) => {
+        try {
+            handle(msg);
+        } catch (e) {
+            post({ type: "error", message: e instanceof Error ? e.message : String(e) });
+        }
+    });
+
+    function handle(msg: ToWorker): void {
+        switch (msg.type) {
+            case "init":
+                engine = new Engine(msg.ttBits);
+                stopFlag = new Int32Array(msg.stopFlag);
+                return;
+            case "clear":
+                engine.clear();
+                return;
+            case "search": {
+                const r = msg.request;
+                const pos = buildPosition(r.sfen, r.moves);
+                const toUsi = (info: SearchInfo): UsiInfo => ({ ...info, pv: info.pv.map((m) => Sfen.formatMove(m)) });
+                const result = engine.search(pos, {
+                    signal,
+                    maxDepth: r.maxDepth,
+                    nodeLimit: r.nodeLimit,
+                    seed: r.seed,
+                    randomness: r.randomness,
+                    onIteration: (info) => post({ type: "info", info: toUsi(info) }),
+                });
+                post({
+                    type: "bestmove",
+                    move: result.move ? Sfen.formatMove(result.move) : null,
+                    ponder: result.pv.length > 1 ? Sfen.formatMove(result.pv[1]) : null,
+                    score: result.score,
+                });
+                return;
+            }
+            case "mate": {
+                const pos = buildPosition(msg.sfen, msg.moves);
+                const r = Tsume.solve(pos, { nodeLimit: msg.nodeLimit, fillDefenderHand: false, signal });
+                post({
+                    type: "checkmate",
+                    moves: r.kind === "MATE" ? r.moves.map((m) => Sfen.formatMove(m)) : null,
+                    timeout: r.kind === "UNKNOWN",
+                });
+                return;
+            }
+        }
+    }
+}
+
+if (isMainThread) {
+    new UsiFrontend((line) => process.stdout.write(line + "\n")).start();
+} else {
+    runWorker();
+}
@@ -0,0 +1,355 @@
+// usiclient.ts
+// 外部の USI エンジンを子プロセスとして起動し、Game の手番を指させる（対局・検討用）。
+// エンジンの返した手は Rules で検証し、時間切れ・異常終了・不正な出力は GameResult にする。
+
+import { ChildProcess, spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { DeclarationRule, Game, GameResult, InitialSetup, Move, Rules } from "./main.js";
+import { Sfen } from "./sfen.js";
+
+// =====================
+// 型
+// =====================
+
+export type UsiClientOptions = {
+    command: string;
+    args?: string[];
+    cwd?: string;
+    // setoption で送る値
+    options?: Record<string, string | number | boolean>;
+    // usiok / readyok を待つ時間
+    startupTimeoutMs?: number;
+    // 送受信した行（ログ用）
+    onLine?: (direction: "SEND" | "RECV", line: string) => void;
+};
+
+export type UsiScore = { kind: "cp" | "mate"; value: number };
+
+export type UsiInfo = {
+    depth?: number;
+    seldepth?: number;
+    time?: number;
+    nodes?: number;
+    nps?: number;
+    score?: UsiScore;
+    pv?: Move[];
+    string?: string;
+};
+
+export type UsiGoOptions = {
+    btime?: number;
+    wtime?: number;
+    byoyomi?: number;
+    binc?: number;
+    winc?: number;
+    infinite?: boolean;
+    // bestmove を待つ上限。省略時は持ち時間 + 秒読み + 加算 + 余裕1秒
+    // （infinite か、btime・wtime・byoyomi のどれもなければ無制限）
+    timeoutMs?: number;
+    onInfo?: (info: UsiInfo) => void;
+};
+
+export type UsiBestMove =
+    | { kind: "MOVE"; move: Move; ponder?: Move; info: UsiInfo }
+    | { kind: "RESIGN" }
+    | { kind: "WIN" };
+
+// エンジン側の不具合。playTurn では TIMEOUT は時間切れ、それ以外は指した側の反則負けにする
+export type UsiFailure = "TIMEOUT" | "CRASH" | "PROTOCOL";
+
+export class UsiEngineError extends Error {
+    constructor(
+        readonly failure: UsiFailure,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+const DEFAULT_STARTUP_TIMEOUT = 10000;
+const TIMEOUT_GRACE = 1000;
+const QUIT_TIMEOUT = 2000;
+// go が時間切れになったあと、stop に bestmove が返るのを待つ時間（返らなければエンジンを止める）
+const STOP_TIMEOUT = 1000;
+
+type Waiter = {
+    match: (line: string) => boolean;
+    resolve: (line: string) => void;
+    reject: (e: Error) => void;
+    timer?: ReturnType<typeof setTimeout>;
+};
+
+// =====================
+// info 行
+// =====================
+
+export function parseUsiInfo(line: string): UsiInfo {
+    const tokens = line.trim().split(/\s+/).slice(1);
+    const info: UsiInfo = {};
+    for (let i = 0; i < tokens.length; i++) {
+        switch (tokens[i]) {
+            case "depth": info.depth = Number(tokens[++i]); break;
+            case "seldepth": info.seldepth = Number(tokens[++i]); break;
+            case "time": info.time = Number(tokens[++i]); break;
+            case "nodes": info.nodes = Number(tokens[++i]); break;
+            case "nps": info.nps = Number(tokens[++i]); break;
+            case "score": {
+                const kind = tokens[++i];
+                const raw = tokens[++i] ?? "";
+                if (kind !== "cp" && kind !== "mate") throw new UsiEngineError("PROTOCOL", `USI: bad score "${line}"`);
+                // "mate +" / "mate -" は手数不明の詰み
+                const value = raw === "+" ? 1 : raw === "-" ? -1 : Number(raw);
+                info.score = { kind, value };
+                if (tokens[i + 1] === "lowerbound" || tokens[i + 1] === "upperbound") i++;
+                break;
+            }
+            case "pv":
+                info.pv = tokens.slice(i + 1).map((t) => Sfen.parseMove(t));
+                return info;
+            case "string":
+                info.string = tokens.slice(i + 1).join(" ");
+                return info;
+        }
+    }
+    return info;
+}
+
+// =====================
+// クライアント
+// =====================
+
+export class UsiClient {
+    name = "";
+    author = "";
+    // エンジンが usi に返した option 行（name -> 行全体）
+    readonly engineOptions: Record<string, string> = {};
+
+    private readonly waiters: Waiter[] = [];
+    private onInfo: ((info: UsiInfo) => void) | undefined;
+    private exited = false;
+
+    private constructor(
+        private readonly proc: ChildProcess,
+        private readonly onLine: UsiClientOptions["onLine"]
+    ) {
+        createInterface({ input: proc.stdout! }).on("line", (line) => this.receive(line));
+        proc.on("exit", (code, signal) => this.onExit(`engine exited (code ${code}, signal ${signal})`));
+        proc.on("error", (e) => this.onExit(`engine failed to start: ${e.message}`));
+        // 入力を閉じた（落ちかけた）エンジンに書くと EPIPE になる。もう指させられないので止める
+        proc.stdin!.on("error", (e) => {
+            this.kill();
+            this.onExit(`engine input closed: ${e.message}`);
+        });
+    }
+
+    // 起動して usi / setoption / isready まで済ませる
+    static async start(options: UsiClientOptions): Promise<UsiClient> {
+        const proc = spawn(options.command, options.args ?? [], { cwd: options.cwd, stdio: ["pipe", "pipe", "ignore"] });
+        const client = new UsiClient(proc, options.onLine);
+        const timeout = options.startupTimeoutMs ?? DEFAULT_STARTUP_TIMEOUT;
+        try {
+            client.send("usi");
+            await client.waitFor((line) => line === "usiok", timeout);
+            for (const [name, value] of Object.entries(options.options ?? {})) {
+                client.send(`setoption name ${name} value ${value}`);
+            }
+            await client.ready(timeout);
+        } catch (e) {
+            client.kill();
+            throw e;
+        }
+        return client;
+    }
+
+    async ready(timeoutMs: number = DEFAULT_STARTUP_TIMEOUT): Promise<void> {
+        this.send("isready");
+        await this.waitFor((line) => line === "readyok", timeoutMs);
+    }
+
+    newGame(): void {
+        this.send("usinewgame");
+    }
+
+    // Game の現在の手順から position を送り、bestmove を待つ
+    async go(game: Game, options: UsiGoOptions = {}): Promise<UsiBestMove> {
+        this.send(this.positionCommand(game));
+
+        const parts = ["go"];
+        if (options.infinite) {
+            parts.push("infinite");
+        } else {
+            for (const key of ["btime", "wtime", "byoyomi", "binc", "winc"] as const) {
+                if (options[key] !== undefined) parts.push(key, String(options[key]));
+            }
+        }
+
+        let last: UsiInfo = {};
+        this.onInfo = (info) => {
+            last = { ...last, ...info };
+            options.onInfo?.(info);
+        };
+        try {
+            this.send(parts.join(" "));
+            const line = await this.waitFor((l) => l.startsWith("bestmove"), options.timeoutMs ?? this.defaultTimeout(game, options));
+            return this.parseBestMove(line, last);
+        } catch (e) {
+            if (e instanceof UsiEngineError && e.failure === "TIMEOUT") await this.abandonSearch();
+            throw e;
+        } finally {
+            this.onInfo = undefined;
+        }
+    }
+
+    // go infinite を止める（bestmove は go の Promise に返る）
+    stop(): void {
+        this.send("stop");
+    }
+
+    // エンジンに1手指させて Game に反映し、その後の結果を返す
+    // Game に時計があり、options で持ち時間を指定していなければ時計の残りを送る
+    async playTurn(game: Game, options: UsiGoOptions = {}, rule: DeclarationRule = "27"): Promise<GameResult> {
+        if (game.checkTime().kind !== "ONGOING") return game.getResult();
+        const player = game.pos.turn;
+        try {
+            const best = await this.go(game, { ...this.clockOptions(game), ...options });
+            if (best.kind === "RESIGN") {
+                game.resign(player);
+            } else if (best.kind === "WIN") {
+                game.declare(player, rule);
+            } else {
+                const reason = Rules.validateMove(game.pos, best.move);
+                if (reason) game.setResult({ kind: "ILLEGAL_MOVE", loser: player, reason });
+                else game.play(best.move);
+            }
+        } catch (e) {
+            if (!(e instanceof UsiEngineError)) throw e;
+            if (e.failure === "TIMEOUT") game.setResult({ kind: "TIME_LOSS", loser: player });
+            else game.setResult({ kind: "ILLEGAL_MOVE", loser: player });
+        }
+        return game.getResult();
+    }
+
+    async quit(): Promise<void> {
+        if (this.exited) return;
+        const exited = new Promise<void>((resolve) => this.proc.once("exit", () => resolve()));
+        this.send("quit");
+        const timer = setTimeout(() => this.kill(), QUIT_TIMEOUT);
+        await exited;
+        clearTimeout(timer);
+    }
+
+    // -------- 内部 --------
+
+    // 時間切れの探索を stop で止め、遅れて来る bestmove を読み捨てる（次の go がそれを受け取らないように）。
+    // stop にも答えなければ、やりとりが食い違ったままになるのでエンジンを止める
+    private async abandonSearch(): Promise<void> {
+        if (this.exited) return;
+        try {
+            this.send("stop");
+            await this.waitFor((l) => l.startsWith("bestmove"), STOP_TIMEOUT);
+        } catch {
+            this.kill();
+            this.onExit("engine did not answer stop");
+        }
+    }
+
+    private positionCommand(game: Game): string {
+        const initial = game.getInitialPosition();
+        const moves = game.getCurrentLine().map((mv) => Sfen.formatMove(mv));
+        const base = initial.key() === InitialSetup.standard().key() ? "startpos" : `sfen ${Sfen.stringify(initial)}`;
+        return `position ${base}${moves.length > 0 ? ` moves ${moves.join(" ")}` : ""}`;
+    }
+
+    private clockOptions(game: Game): UsiGoOptions {
+        const clock = game.getClock();
+        if (!clock) return {};
+        const opts: UsiGoOptions = { btime: clock.read("SENTE").mainMs, wtime: clock.read("GOTE").mainMs };
+        const binc = clock.getTimeControl("SENTE").incrementMs ?? 0;
+        const winc = clock.getTimeControl("GOTE").incrementMs ?? 0;
+        if (binc > 0 || winc > 0) return { ...opts, binc, winc };
+        // USI の byoyomi は手番側の1手あたりの秒読み
+        return { ...opts, byoyomi: clock.read(game.pos.turn).byoyomiMs };
+    }
+
+    private defaultTimeout(game: Game, options: UsiGoOptions): number | undefined {
+        if (options.infinite) return undefined;
+        // 時間の指定のない go はエンジンの既定の読みで返るのを待つ
+        if (options.btime === undefined && options.wtime === undefined && options.byoyomi === undefined) return undefined;
+        const sente = game.pos.turn === "SENTE";
+        const rest = (sente ? options.btime : options.wtime) ?? 0;
+        const inc = (sente ? options.binc : options.winc) ?? 0;
+        return rest + inc + (options.byoyomi ?? 0) + TIMEOUT_GRACE;
+    }
+
+    private parseBestMove(line: string, info: UsiInfo): UsiBestMove {
+        const tokens = line.trim().split(/\s+/);
+        const token = tokens[1];
+        if (token === "resign") return { kind: "RESIGN" };
+        if (token === "win") return { kind: "WIN" };
+        try {
+            const move = Sfen.parseMove(token ?? "");
+            const ponder = tokens[2] === "ponder" && tokens[3] ? Sfen.parseMove(tokens[3]) : undefined;
+            return ponder ? { kind: "MOVE", move, ponder, info } : { kind: "MOVE", move, info };
+        } catch {
+            throw new UsiEngineError("PROTOCOL", `USI: malformed bestmove "${line}"`);
+        }
+    }
+
+    private send(line: string): void {
+        if (this.exited) throw new UsiEngineError("CRASH", "USI: engine is not running");
+        this.onLine?.("SEND", line);
+        this.proc.stdin!.write(line + "\n");
+    }
+
+    private receive(raw: string): void {
+        const line = raw.trim();
+        this.onLine?.("RECV", line);
+        if (line.startsWith("id name ")) this.name = line.slice(8);
+        else if (line.startsWith("id author ")) this.author = line.slice(10);
+        else if (line.startsWith("option name ")) this.engineOptions[line.split(/\s+/)[2]] = line;
+        else if (line.startsWith("info ") && this.onInfo) {
+            try {
+                this.onInfo(parseUsiInfo(line));
+            } catch (e) {
+                this.rejectAll(new UsiEngineError("PROTOCOL", e instanceof Error ? e.message : String(e)));
+            }
+        }
+
+        const i = this.waiters.findIndex((w) => w.match(line));
+        if (i < 0) return;
+        const [w] = this.waiters.splice(i, 1);
+        if (w.timer !== undefined) clearTimeout(w.timer);
+        w.resolve(line);
+    }
+
+    private waitFor(match: (line: string) => boolean, timeoutMs: number | undefined): Promise<string> {
+        if (this.exited) return Promise.reject(new UsiEngineError("CRASH", "USI: engine is not running"));
+        return new Promise<string>((resolve, reject) => {
+            const w: Waiter = { match, resolve, reject };
+            if (timeoutMs !== undefined) {
+                w.timer = setTimeout(() => {
+                    this.waiters.splice(this.waiters.indexOf(w), 1);
+                    reject(new UsiEngineError("TIMEOUT", `USI: no response within ${timeoutMs}ms`));
+                }, timeoutMs);
+            }
+            this.waiters.push(w);
+        });
+    }
+
+    private rejectAll(e: Error): void {
+        for (const w of this.waiters.splice(0)) {
+            if (w.timer !== undefined) clearTimeout(w.timer);
+            w.reject(e);
+        }
+    }
+
+    private onExit(message: string): void {
+        if (this.exited) return;
+        this.exited = true;
+        this.rejectAll(new UsiEngineError("CRASH", `USI: ${message}`));
+    }
+
+    private kill(): void {
+        if (!this.exited) this.proc.kill();
+    }
+}
@@ -0,0 +1,129 @@
+// controller.test.ts
+// GameController を画面なしで動かす（選択・成り不成・文字入力・棋譜の表示位置・状態の文言）。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game, Handicap, InitialSetup, Move, PieceType } from "../docs/main.js";
+import { GameController } from "../docs/controller.js";
+import { Sfen } from "../docs/sfen.js";
+
+const startpos = () => new GameController(new Game(InitialSetup.standard()));
+const fromSfen = (sfen: string) => new GameController(new Game(Sfen.parse(sfen).position));
+const usi = (mv: Move) => Sfen.formatMove(mv);
+
+test("自分の駒を選ぶと行き先が出て、行き先を押すと指す", () => {
+    const c = startpos();
+    assert.equal(c.clickSquare({ file: 7, rank: 7 }).kind, "SELECTED");
+    assert.deepEqual(c.legalTargets(), [{ file: 7, rank: 6 }]);
+    const r = c.clickSquare({ file: 7, rank: 6 });
+    assert.equal(r.kind, "MOVED");
+    assert.equal(c.selectedSquare, null);
+    assert.equal(c.getGame().getCurrentNode().ply, 1);
+    assert.equal(c.statusText(), "後手の手番です。");
+});
+
+test("相手の駒や行けないマスでは選ばれず、選択も外れる", () => {
+    const c = startpos();
+    assert.equal(c.clickSquare({ file: 3, rank: 3 }).kind, "NONE");
+    c.clickSquare({ file: 2, rank: 7 });
+    assert.equal(c.clickSquare({ file: 5, rank: 5 }).kind, "NONE");
+    assert.equal(c.selectedSquare, null);
+    assert.deepEqual(c.legalTargets(), []);
+});
+
+test("成・不成を選べる手は PROMOTION_CHOICE で止まり、choosePromotion で指す", () => {
+    const c = fromSfen("4k4/9/9/9/9/9/9/7B1/4K4 b - 1");
+    c.clickSquare({ file: 2, rank: 8 });
+    const r = c.clickSquare({ file: 7, rank: 3 });
+    assert.equal(r.kind, "PROMOTION_CHOICE");
+    assert.ok(c.pendingPromotion);
+    const played = c.choosePromotion(false);
+    assert.equal(played.kind, "MOVED");
+    assert.equal(usi(c.getGame().getCurrentNode().move!), "2h7c");
+    assert.equal(c.pendingPromotion, null);
+});
+
+test("持ち駒を選んで打つ。もう一度選ぶと解除", () => {
+    const c = fromSfen("4k4/9/4P4/9/9/9/9/9/4K4 b G 1");
+    assert.equal(c.clickHand("SENTE", PieceType.KI).kind, "SELECTED");
+    assert.equal(c.clickHand("SENTE", PieceType.KI).kind, "NONE");
+    c.clickHand("SENTE", PieceType.KI);
+    const r = c.clickSquare({ file: 5, rank: 2 });
+    assert.equal(r.kind, "MOVED");
+    assert.equal(c.statusText(), "詰みです。勝者: 先手");
+    assert.deepEqual(c.legalMoves(), []);
+});
+
+test("文字で入力した手（KI2・USI・同）", () => {
+    const c = startpos();
+    assert.equal(c.enterMove("7g7f").kind, "MOVED");
+    assert.equal(c.enterMove("34歩").kind, "MOVED");
+    assert.equal(c.enterMove("２二角成").kind, "MOVED");
+    const same = c.enterMove("同銀");
+    assert.equal(same.kind, "MOVED");
+    assert.equal(usi(c.getGame().getCurrentNode().move!), "3a2b");
+});
+
+test("文字で入力した手が読めない・曖昧なら REJECTED", () => {
+    const c = startpos();
+    const bad = c.enterMove("xx");
+    assert.equal(bad.kind, "REJECTED");
+    const ambiguous = c.enterMove("58金");
+    assert.equal(ambiguous.kind, "REJECTED");
+    assert.equal(c.enterMove("58金右").kind, "MOVED");
+    assert.equal(c.enterMove("55歩").kind, "REJECTED");
+});
+
+test("前の局面を表示しているあいだは指せない", () => {
+    const c = startpos();
+    c.enterMove("76歩");
+    c.enterMove("34歩");
+    c.goToPly(1);
+    assert.equal(c.shownPly(), 1);
+    assert.equal(c.canPlay(), false);
+    assert.equal(c.clickSquare({ file: 3, rank: 3 }).kind, "NONE");
+    assert.match(c.statusText(), /^1手目の局面です/);
+    c.goToPly(Infinity);
+    assert.equal(c.viewPly, null);
+    assert.equal(c.canPlay(), true);
+});
+
+test("変化に入ると棋譜の一覧と表示する局面はその変化の手順になる", () => {
+    const c = startpos();
+    const game = c.getGame();
+    for (const mv of ["76歩", "34歩", "26歩"]) c.enterMove(mv);
+    const main = game.getMainLine();
+    game.goTo(main[0]);
+    c.enterMove("84歩");
+    const branch = game.getCurrentNode();
+    assert.equal(branch.isMainLine(), false);
+    assert.deepEqual(c.moveList().map((e) => e.text), ["▲７六歩", "△８四歩"]);
+    assert.equal(c.shownNode(), branch);
+
+    c.goToPly(1);
+    assert.equal(c.shownNode(), main[0]);
+    c.goToPly(Infinity);
+    assert.equal(c.viewPly, null);
+    assert.equal(c.shownNode(), branch);
+
+    // 戻った先からは最後に通った変化をたどる
+    game.goTo(main[0]);
+    assert.deepEqual(c.moveList().map((e) => e.text), ["▲７六歩", "△８四歩"]);
+    c.goToPly(2);
+    assert.equal(c.shownNode(), branch);
+});
+
+test("submitMove があれば Game に指さずに渡す", () => {
+    const c = startpos();
+    const sent: string[] = [];
+    c.submitMove = (mv) => sent.push(usi(mv));
+    assert.equal(c.enterMove("76歩").kind, "SUBMITTED");
+    assert.deepEqual(sent, ["7g7f"]);
+    assert.equal(c.getGame().getCurrentNode().ply, 0);
+});
+
+test("駒落ちでは下手・上手と呼ぶ", () => {
+    const c = new GameController(new Game(InitialSetup.handicap(Handicap.KAKU)));
+    assert.equal(c.playerLabel("SENTE"), "下手");
+    assert.equal(c.playerLabel("GOTE"), "上手");
+});
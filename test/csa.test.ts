@@ -0,0 +1,103 @@
+// csa.test.ts
+// CSA の書き出しと読み込み。特に終局の特殊な手で結果（負けた側）が変わらないこと。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game, GameResult, InitialSetup } from "../docs/main.js";
+import { Csa } from "../docs/csa.js";
+import { Sfen } from "../docs/sfen.js";
+
+const play = (game: Game, ...usi: string[]) => {
+    for (const u of usi) assert.equal(game.play(Sfen.parseMove(u)), null, u);
+    return game;
+};
+const standard = (...usi: string[]) => play(new Game(InitialSetup.standard()), ...usi);
+const roundTrip = (game: Game): GameResult => Csa.parse(Csa.export(game)).game.getResult();
+const lastLine = (text: string) => text.trimEnd().split("\n").at(-1);
+
+// 飛車で王手をかけ続け、開始局面が4回目になる
+const PERPETUAL = "k8/9/9/9/9/9/9/9/1R2K4 b - 1";
+const PERPETUAL_MOVES = ["8i9i", "9a8a", "9i8i", "8a9a"];
+
+test("手順・ヘッダ・消費時間が往復する", () => {
+    const game = standard("7g7f", "3c3d", "8h2b+", "3a2b");
+    game.getMainLine().forEach((n, i) => (n.consumedMs = (i + 1) * 1500));
+    game.resign("SENTE");
+    const text = Csa.export(game, { "N+": "A", "N-": "B", EVENT: "test" });
+    assert.match(text, /^V2\.2\nN\+A\nN-B\n\$EVENT:test\nPI\n\+\n\+7776FU\nT1\n-3334FU\nT3\n\+8822UM\nT4\n-3122GI\nT6\n%TORYO\n$/);
+    const back = Csa.parse(text);
+    assert.deepEqual(back.headers, { "N+": "A", "N-": "B", EVENT: "test" });
+    assert.deepEqual(back.times, [1, 3, 4, 6]);
+    assert.deepEqual(back.game.getHistory().map((mv) => Sfen.formatMove(mv)), ["7g7f", "3c3d", "8h2b+", "3a2b"]);
+    assert.deepEqual(back.game.getResult(), { kind: "RESIGN", winner: "GOTE" });
+});
+
+test("平手でない局面は P1〜P9 と持ち駒で書く", () => {
+    const sfen = "4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1";
+    const game = play(new Game(Sfen.parse(sfen).position), "G*5b");
+    const text = Csa.export(game);
+    assert.match(text, /^P\+00KI$/m);
+    assert.match(text, /^\+0052KI\n%TSUMI\n$/m);
+    const back = Csa.parse(text).game;
+    assert.equal(Sfen.stringify(back.getInitialPosition()), sfen);
+    assert.deepEqual(back.getResult(), { kind: "CHECKMATE", winner: "SENTE" });
+});
+
+test("千日手は %SENNICHITE で引き分けのまま", () => {
+    const game = standard();
+    for (let i = 0; i < 3; i++) play(game, "5i5h", "5a5b", "5h5i", "5b5a");
+    assert.deepEqual(game.getResult(), { kind: "DRAW_REPETITION" });
+    assert.equal(lastLine(Csa.export(game)), "%SENNICHITE");
+    assert.deepEqual(roundTrip(game), { kind: "DRAW_REPETITION" });
+});
+
+test("連続王手の千日手は王手をかけた側の反則として書く", () => {
+    const game = new Game(Sfen.parse(PERPETUAL).position);
+    for (let i = 0; i < 3; i++) play(game, ...PERPETUAL_MOVES);
+    assert.deepEqual(game.getResult(), { kind: "PERPETUAL_CHECK", loser: "SENTE" });
+    assert.equal(lastLine(Csa.export(game)), "%+ILLEGAL_ACTION");
+    // 手順から連続王手と判定し直せる
+    assert.deepEqual(roundTrip(game), { kind: "PERPETUAL_CHECK", loser: "SENTE" });
+
+    // 手順で判定できなくても負けた側は残る
+    const declared = standard("7g7f");
+    declared.setResult({ kind: "PERPETUAL_CHECK", loser: "SENTE" });
+    assert.deepEqual(roundTrip(declared), { kind: "ILLEGAL_MOVE", loser: "SENTE" });
+});
+
+test("入玉宣言の失敗は宣言した側の負けのまま", () => {
+    const game = standard("7g7f");
+    game.declare("GOTE");
+    assert.deepEqual(game.getResult(), { kind: "DECLARATION_FAIL", loser: "GOTE" });
+    assert.equal(lastLine(Csa.export(game)), "%-ILLEGAL_ACTION");
+    assert.deepEqual(roundTrip(game), { kind: "ILLEGAL_MOVE", loser: "GOTE" });
+});
+
+test("時間切れは手番側なら %TIME_UP、そうでなければ負けた側の反則", () => {
+    const game = standard("7g7f");
+    game.setResult({ kind: "TIME_LOSS", loser: "GOTE" });
+    assert.equal(lastLine(Csa.export(game)), "%TIME_UP");
+    assert.deepEqual(roundTrip(game), { kind: "TIME_LOSS", loser: "GOTE" });
+
+    const other = standard("7g7f");
+    other.setResult({ kind: "TIME_LOSS", loser: "SENTE" });
+    assert.equal(lastLine(Csa.export(other)), "%+ILLEGAL_ACTION");
+    assert.deepEqual(roundTrip(other), { kind: "ILLEGAL_MOVE", loser: "SENTE" });
+});
+
+test("反則は手番側なら %ILLEGAL_MOVE、相手なら %±ILLEGAL_ACTION", () => {
+    const game = standard("7g7f");
+    game.setResult({ kind: "ILLEGAL_MOVE", loser: "GOTE" });
+    assert.equal(lastLine(Csa.export(game)), "%ILLEGAL_MOVE");
+    assert.deepEqual(roundTrip(game), { kind: "ILLEGAL_MOVE", loser: "GOTE" });
+
+    const other = standard("7g7f");
+    other.setResult({ kind: "ILLEGAL_MOVE", loser: "SENTE" });
+    assert.equal(lastLine(Csa.export(other)), "%+ILLEGAL_ACTION");
+    assert.deepEqual(roundTrip(other), { kind: "ILLEGAL_MOVE", loser: "SENTE" });
+});
+
+test("壊れた CSA は行番号を付けて弾く", () => {
+    assert.throws(() => Csa.parse("PI\n+\n+7775FU\n"), /^Error: CSA line 3:/);
+    assert.throws(() => Csa.parse("$EVENT\n"), /CSA line 1: malformed header "\$EVENT"/);
+});
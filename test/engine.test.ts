@@ -0,0 +1,53 @@
+// engine.test.ts
+// Engine.search の詰み・限度・同じ seed での再現性。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { InitialSetup } from "../docs/main.js";
+import { Engine, MATE_SCORE } from "../docs/engine.js";
+import { Sfen } from "../docs/sfen.js";
+
+test("1手詰を見つけ、詰みの評価値を返す", () => {
+    const pos = Sfen.parse("4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1").position;
+    const r = new Engine().search(pos, { maxDepth: 3 });
+    assert.equal(Sfen.formatMove(r.move!), "G*5b");
+    assert.equal(r.score, MATE_SCORE - 1);
+    assert.deepEqual(r.pv.map((m) => Sfen.formatMove(m)), ["G*5b"]);
+});
+
+test("合法手がなければ move は null", () => {
+    const pos = Sfen.parse("4k4/4G4/4P4/9/9/9/9/9/4K4 w 2r2b3g4s4n4l17p 1").position;
+    const r = new Engine().search(pos);
+    assert.equal(r.move, null);
+    assert.equal(r.score, -MATE_SCORE);
+});
+
+test("同じ seed なら、別の局面を読んだ後の同じエンジンでも同じ手と読み筋になる", () => {
+    const pos = InitialSetup.standard();
+    const options = { nodeLimit: 20000, seed: 7, randomness: 50 };
+    const engine = new Engine();
+    const first = engine.search(pos, options);
+    engine.search(Sfen.parse("lnsgkgsnl/1r5b1/ppppppppp/9/9/2P6/PP1PPPPPP/1B5R1/LNSGKGSNL w - 2").position, { nodeLimit: 20000 });
+    const again = engine.search(pos, options);
+    assert.deepEqual(again, { ...first, timeMs: again.timeMs });
+    const fresh = new Engine().search(pos, options);
+    assert.deepEqual(fresh, { ...first, timeMs: fresh.timeMs });
+});
+
+test("nodeLimit・stop・signal で止まる", () => {
+    const pos = InitialSetup.standard();
+    const r = new Engine().search(pos, { nodeLimit: 3000 });
+    assert.ok(r.move !== null);
+    assert.ok(r.nodes <= 3000, `nodes = ${r.nodes}`);
+
+    // 最初の反復の後で止めると、その反復の結果を返す
+    const engine = new Engine();
+    const stopped = engine.search(pos, { maxDepth: 10, onIteration: () => engine.stop() });
+    assert.equal(stopped.depth, 1);
+    assert.ok(stopped.move !== null);
+
+    // signal は何ノードかおきに見るので、限度なしでも少し先の反復で止まる
+    const signal = { aborted: false };
+    const aborted = new Engine().search(pos, { signal, onIteration: () => (signal.aborted = true) });
+    assert.ok(aborted.depth >= 1 && aborted.depth <= 3, `depth = ${aborted.depth}`);
+});
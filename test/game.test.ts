@@ -0,0 +1,131 @@
+// game.test.ts
+// Game.play の戻り値（指した・反則・終局後）と、反則負けの理由、持ち時間、千日手。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game, InitialSetup } from "../docs/main.js";
+import { GameController } from "../docs/controller.js";
+import { Sfen } from "../docs/sfen.js";
+
+test("指せば null、反則なら理由で、FORFEIT では反則負けになる", () => {
+    const game = new Game(InitialSetup.standard());
+    assert.equal(game.play(Sfen.parseMove("7g7f")), null);
+    assert.equal(game.play(Sfen.parseMove("3c3e")), "UNREACHABLE");
+    assert.deepEqual(game.getResult(), { kind: "ILLEGAL_MOVE", loser: "GOTE", reason: "UNREACHABLE" });
+    assert.equal(new GameController(game).statusText(), "反則負け: 後手 (その駒はそこへ動けません)");
+});
+
+test("REJECT では反則手を受け付けずに続ける", () => {
+    const game = new Game(InitialSetup.standard(), { illegalMovePolicy: "REJECT" });
+    assert.equal(game.play(Sfen.parseMove("7g7e")), "UNREACHABLE");
+    assert.equal(game.getResult().kind, "ONGOING");
+    assert.equal(game.getCurrentNode().ply, 0);
+});
+
+test("終局後の手は GAME_OVER で、指されない", () => {
+    const game = new Game(InitialSetup.standard());
+    game.resign("SENTE");
+    assert.equal(game.play(Sfen.parseMove("7g7f")), "GAME_OVER");
+    assert.equal(game.getCurrentNode().ply, 0);
+});
+
+test("時間が切れてから指した手は GAME_OVER で、時間切れになる", () => {
+    let now = 0;
+    const game = new Game(InitialSetup.standard(), { timeControl: { mainMs: 1000 }, clockSource: () => now });
+    now = 1500;
+    assert.equal(game.play(Sfen.parseMove("7g7f")), "GAME_OVER");
+    assert.deepEqual(game.getResult(), { kind: "TIME_LOSS", loser: "SENTE" });
+    assert.equal(game.getCurrentNode().ply, 0);
+});
+
+test("GameController は時間切れで指せなかった手を MOVED にしない", () => {
+    let now = 0;
+    const game = new Game(InitialSetup.standard(), { timeControl: { mainMs: 1000 }, clockSource: () => now });
+    const c = new GameController(game);
+    c.clickSquare({ file: 7, rank: 7 });
+    now = 1500;
+    assert.notEqual(c.clickSquare({ file: 7, rank: 6 }).kind, "MOVED");
+    assert.equal(game.getCurrentNode().ply, 0);
+});
+
+test("秒読みは1回分を使い切るごとに回数が減り、最後の回を過ぎると時間切れ", () => {
+    let now = 0;
+    const game = new Game(InitialSetup.standard(), { timeControl: { mainMs: 1000, byoyomiMs: 500, byoyomiPeriods: 2 }, clockSource: () => now });
+    const clock = game.getClock()!;
+    now = 1200;
+    assert.deepEqual(clock.read("SENTE"), { mainMs: 0, byoyomiMs: 300, periods: 2, inByoyomi: true, flagged: false });
+    now = 1700;
+    assert.deepEqual(clock.read("SENTE"), { mainMs: 0, byoyomiMs: 300, periods: 1, inByoyomi: true, flagged: false });
+    assert.equal(game.play(Sfen.parseMove("7g7f")), null);
+    assert.equal(game.getCurrentNode().consumedMs, 1700);
+    // 指すと次の手の秒読みは1回分に戻る（回数は戻らない）
+    assert.deepEqual(clock.read("SENTE"), { mainMs: 0, byoyomiMs: 500, periods: 1, inByoyomi: true, flagged: false });
+
+    now = 1800;
+    assert.equal(game.play(Sfen.parseMove("3c3d")), null);
+    now = 2200;
+    assert.equal(game.checkTime().kind, "ONGOING");
+    assert.equal(clock.read("SENTE").byoyomiMs, 100);
+    now = 2400;
+    assert.deepEqual(game.checkTime(), { kind: "TIME_LOSS", loser: "SENTE" });
+    assert.equal(clock.getRunning(), null);
+});
+
+test("フィッシャーは指した後の残りに加算し、ちょうど0までは切れない", () => {
+    let now = 0;
+    const game = new Game(InitialSetup.standard(), { timeControl: { mainMs: 1000, incrementMs: 300 }, clockSource: () => now });
+    const clock = game.getClock()!;
+    now = 400;
+    game.play(Sfen.parseMove("7g7f"));
+    assert.equal(clock.read("SENTE").mainMs, 900);
+    assert.equal(clock.getRunning(), "GOTE");
+
+    now = 1400;
+    assert.equal(clock.read("GOTE").mainMs, 0);
+    assert.equal(game.checkTime().kind, "ONGOING");
+    now = 1401;
+    assert.deepEqual(game.checkTime(), { kind: "TIME_LOSS", loser: "GOTE" });
+    assert.equal(game.play(Sfen.parseMove("3c3d")), "GAME_OVER");
+});
+
+test("各手の consumedMs はその手番の経過時間で、一時停止のあいだは数えない", () => {
+    let now = 0;
+    const game = new Game(InitialSetup.standard(), { timeControl: { mainMs: 60000 }, clockSource: () => now });
+    const clock = game.getClock()!;
+    now = 1200;
+    game.play(Sfen.parseMove("7g7f"));
+    now = 2000;
+    clock.pause();
+    now = 9000;
+    clock.resume();
+    now = 9500;
+    game.play(Sfen.parseMove("3c3d"));
+    assert.deepEqual(game.getMainLine().map((n) => n.consumedMs), [1200, 1300]);
+    assert.equal(clock.read("SENTE").mainMs, 58800);
+    assert.equal(clock.read("GOTE").mainMs, 58700);
+});
+
+test("同じ局面が4回目で千日手（3回目まではまだ続く）", () => {
+    const game = new Game(InitialSetup.standard());
+    const cycle = ["5i5h", "5a5b", "5h5i", "5b5a"];
+    for (let i = 0; i < 11; i++) assert.equal(game.play(Sfen.parseMove(cycle[i % 4])), null);
+    assert.equal(game.getResult().kind, "ONGOING");
+    game.play(Sfen.parseMove(cycle[3]));
+    assert.deepEqual(game.getResult(), { kind: "DRAW_REPETITION" });
+    assert.equal(new GameController(game).statusText(), "千日手です。");
+});
+
+test("王手をかけ続けた千日手は王手をかけた側の負け", () => {
+    // 先手の飛車が 9i と 8i を行き来して王手し、後手の玉は 9a と 8a を行き来する
+    const game = new Game(Sfen.parse("k8/9/9/9/9/9/9/9/1R2K4 b - 1").position);
+    const cycle = ["8i9i", "9a8a", "9i8i", "8a9a"];
+    for (let i = 0; i < 12; i++) assert.equal(game.play(Sfen.parseMove(cycle[i % 4])), null);
+    assert.deepEqual(game.getResult(), { kind: "PERPETUAL_CHECK", loser: "SENTE" });
+
+    // 後手が王手をかけ続けたとき
+    const gote = new Game(Sfen.parse("1r2k4/9/9/9/9/9/9/9/K8 w - 1").position);
+    const goteCycle = ["8a9a", "9i8i", "9a8a", "8i9i"];
+    for (let i = 0; i < 12; i++) assert.equal(gote.play(Sfen.parseMove(goteCycle[i % 4])), null);
+    assert.deepEqual(gote.getResult(), { kind: "PERPETUAL_CHECK", loser: "GOTE" });
+    assert.equal(new GameController(gote).statusText(), "連続王手の千日手: 後手の負け");
+});
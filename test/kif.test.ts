@@ -0,0 +1,134 @@
+// kif.test.ts
+// KIF・KI2 の書き出しと読み込み（変化・コメント・消費時間・ヘッダ）と、KI2 の 右左直上引寄。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game, Handicap, InitialSetup } from "../docs/main.js";
+import { Kif } from "../docs/kif.js";
+import { Sfen } from "../docs/sfen.js";
+
+// 本譜と変化1つ。投了の行にも消費時間がある
+const KIF = `開始日時：2024/01/01
+先手：A
+後手：B
+手合割：平手
+手数----指手---------消費時間--
+   1 ７六歩(77)   ( 0:05/00:00:05)
+   2 ３四歩(33)   ( 0:10/00:00:10)+
+*角道を開ける
+   3 ２二角成(88)   ( 1:02/00:01:07)
+   4 同　銀(31)   ( 0:03/00:00:13)
+   5 投了   ( 0:40/00:01:47)
+まで4手で後手の勝ち
+
+変化：2手
+   2 ８四歩(83)   ( 0:07/00:00:07)
+   3 ２六歩(27)   ( 0:02/00:00:07)
+`;
+
+const usiLine = (game: Game) => game.getMainLine().map((n) => Sfen.formatMove(n.move!));
+
+test("KIF を読んで書き出すと元に戻る（ヘッダの順・変化・コメント・投了の消費時間）", () => {
+    const { game, headers } = Kif.parse(KIF);
+    assert.deepEqual(Object.keys(headers), ["開始日時", "先手", "後手", "手合割"]);
+    assert.deepEqual(usiLine(game), ["7g7f", "3c3d", "8h2b+", "3a2b"]);
+    assert.deepEqual(game.getResult(), { kind: "RESIGN", winner: "GOTE" });
+    assert.deepEqual(game.getMainLine().map((n) => n.consumedMs), [5000, 10000, 62000, 3000]);
+    assert.equal(game.getCurrentNode().resultConsumedMs, 40000);
+    const branch = game.getRoot().children[0].children[1];
+    assert.equal(Sfen.formatMove(branch.move!), "8c8d");
+    assert.deepEqual(game.getMainLine()[1].comments, ["角道を開ける"]);
+    assert.equal(Kif.exportKif(game, headers), KIF);
+});
+
+test("消費時間のない手があれば、その側の時間は書かない", () => {
+    const { game } = Kif.parse(KIF);
+    game.getMainLine()[0].consumedMs = undefined;
+    const lines = Kif.exportKif(game).split("\n");
+    assert.equal(lines.find((l) => l.startsWith("   1 ")), "   1 ７六歩(77)");
+    assert.equal(lines.find((l) => l.startsWith("   3 ２二")), "   3 ２二角成(88)");
+    assert.equal(lines.find((l) => l.startsWith("   4 ")), "   4 同　銀(31)   ( 0:03/00:00:13)");
+});
+
+test("KI2 に書き出して読み直しても同じ手順・変化・結果になる", () => {
+    const { game, headers } = Kif.parse(KIF);
+    const ki2 = Kif.exportKi2(game, headers);
+    assert.match(ki2, /^▲７六歩 {4}△３四歩$/m);
+    assert.match(ki2, /^▲２二角成 {4}△同銀$/m);
+    const back = Kif.parse(ki2);
+    assert.deepEqual(back.headers, headers);
+    assert.deepEqual(usiLine(back.game), usiLine(game));
+    assert.deepEqual(back.game.getResult(), game.getResult());
+    assert.equal(back.game.getRoot().children[0].children.length, 2);
+});
+
+test("駒落ちは手合割を局面から決め、盤面図は書かない", () => {
+    const game = new Game(InitialSetup.handicap(Handicap.KAKU));
+    game.play(Sfen.parseMove("5a4b"));
+    const kif = Kif.exportKif(game, { 上手: "A", 下手: "B" });
+    assert.match(kif, /^上手：A\n下手：B\n手合割：角落ち\n手数/);
+    const back = Kif.parse(kif);
+    assert.equal(Sfen.stringify(back.game.getInitialPosition()), Sfen.handicap(Handicap.KAKU));
+    assert.deepEqual(usiLine(back.game), ["5a4b"]);
+});
+
+test("平手以外の局面は盤面図で書き、読み戻せる", () => {
+    const sfen = "4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1";
+    const game = new Game(Sfen.parse(sfen).position);
+    game.play(Sfen.parseMove("G*5b"));
+    const kif = Kif.exportKif(game);
+    assert.match(kif, /^先手の持駒：金$/m);
+    assert.match(kif, /^   1 ５二金打$/m);
+    const back = Kif.parse(kif);
+    assert.equal(Sfen.stringify(back.game.getInitialPosition()), sfen);
+    assert.equal(back.game.getResult().kind, "CHECKMATE");
+});
+
+test("壊れた KIF は行番号を付けて弾く", () => {
+    assert.throws(() => Kif.parse("手数----指手--\n   1 ７五歩(77)\n"), /^Error: KIF line 2: illegal move "７五歩\(77\)"/);
+    assert.throws(() => Kif.parse("手合割：十一枚落ち\n"), /KIF line 1: unknown handicap "十一枚落ち"/);
+    assert.throws(() => Kif.parse("▲５八金\n"), /KI2 line 1: ambiguous move "▲５八金"/);
+});
+
+// 同じマスに行ける同じ駒が2枚ある局面で、それぞれの手の KI2 表記
+const DISAMBIGUATION: Array<[string, Array<[string, string]>]> = [
+    ["4k4/9/9/9/9/9/9/9/K3GG3 b - 1", [["5i5h", "５八金直"], ["4i5h", "５八金右"]]],
+    ["4k4/9/9/9/9/9/9/9/K2G1G3 b - 1", [["6i5h", "５八金左"], ["4i5h", "５八金右"]]],
+    ["4k4/9/9/9/9/9/9/3G5/K4G3 b - 1", [["6h5h", "５八金寄"], ["4i5h", "５八金上"]]],
+    ["4k4/9/9/9/9/9/4G4/9/K4G3 b - 1", [["5g5h", "５八金引"], ["4i5h", "５八金上"]]],
+    ["k2g1g3/9/9/9/9/9/9/9/4K4 w - 1", [["6a5b", "５二金右"], ["4a5b", "５二金左"]]],
+];
+
+test("KI2 は 右左直上引寄 で区別して書き、resolveMoveText で同じ手に戻る", () => {
+    for (const [sfen, moves] of DISAMBIGUATION) {
+        const pos = Sfen.parse(sfen).position;
+        const bare = moves[0][1].slice(0, 3);
+        assert.equal(Kif.resolveMoveText(pos, bare).length, 2, `${sfen} ${bare}`);
+        for (const [usi, text] of moves) {
+            assert.equal(Kif.formatKi2Move(pos, Sfen.parseMove(usi)), text, `${sfen} ${usi}`);
+            assert.deepEqual(Kif.resolveMoveText(pos, text).map((mv) => Sfen.formatMove(mv)), [usi], `${sfen} ${text}`);
+        }
+    }
+});
+
+test("resolveMoveText は 同・打・KIF の移動元・成不成 を読む", () => {
+    const game = new Game(InitialSetup.standard());
+    for (const usi of ["7g7f", "3c3d", "8h2b+"]) game.play(Sfen.parseMove(usi));
+    const prev = game.getCurrentNode().move!.to;
+    assert.deepEqual(Kif.resolveMoveText(game.pos, "同銀", prev).map((mv) => Sfen.formatMove(mv)), ["3a2b"]);
+    assert.deepEqual(Kif.resolveMoveText(game.pos, "２二銀(31)").map((mv) => Sfen.formatMove(mv)), ["3a2b"]);
+    assert.equal(Kif.resolveMoveText(game.pos, "同金", prev).length, 0);
+    assert.throws(() => Kif.resolveMoveText(game.pos, "同銀"), /"同" without a previous move/);
+
+    // 成・不成を書かなければ両方、書けば片方
+    const bishop = Sfen.parse("4k4/9/9/9/9/9/9/7B1/4K4 b - 1").position;
+    assert.equal(Kif.resolveMoveText(bishop, "73角").length, 2);
+    assert.deepEqual(Kif.resolveMoveText(bishop, "73角成").map((mv) => Sfen.formatMove(mv)), ["2h7c+"]);
+    assert.deepEqual(Kif.resolveMoveText(bishop, "73角不成").map((mv) => Sfen.formatMove(mv)), ["2h7c"]);
+
+    // 盤上の駒も行けるマスへの打ちは「打」が要る
+    const drop = Sfen.parse("4k4/9/9/9/9/9/9/4G4/4K4 b G 1").position;
+    assert.equal(Kif.formatKi2Move(drop, Sfen.parseMove("G*5g")), "５七金打");
+    assert.equal(Kif.formatKi2Move(drop, Sfen.parseMove("5h5g")), "５七金");
+    assert.deepEqual(Kif.resolveMoveText(drop, "57金打").map((mv) => Sfen.formatMove(mv)), ["G*5g"]);
+});
@@ -0,0 +1,99 @@
+// kifutree.test.ts
+// Game の棋譜の木：待った・やり直し・変化の追加・本譜への昇格・変化の削除。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game, InitialSetup, KifuNode } from "../docs/main.js";
+import { Sfen } from "../docs/sfen.js";
+
+const mv = (usi: string) => Sfen.parseMove(usi);
+const line = (nodes: readonly KifuNode[]) => nodes.map((n) => Sfen.formatMove(n.move!));
+const current = (game: Game) => game.getCurrentLine().map((m) => Sfen.formatMove(m));
+
+// 7g7f 3c3d 2g2f の本譜に、2手目の変化 8c8d 2g2f を足したもの
+function tree(): { game: Game; main: KifuNode[]; branch: KifuNode[] } {
+    const game = new Game(InitialSetup.standard());
+    for (const u of ["7g7f", "3c3d", "2g2f"]) game.play(mv(u));
+    const first = game.getMainLine()[0];
+    const b1 = game.addVariation(first, mv("8c8d"));
+    const b2 = game.addVariation(b1, mv("2g2f"));
+    return { game, main: game.getMainLine(), branch: [b1, b2] };
+}
+
+test("待ったとやり直しで本譜を行き来する", () => {
+    const { game } = tree();
+    assert.equal(game.undo(), true);
+    assert.equal(game.undo(), true);
+    assert.deepEqual(current(game), ["7g7f"]);
+    assert.equal(game.redo(), true);
+    assert.deepEqual(current(game), ["7g7f", "3c3d"]);
+    assert.equal(game.jumpTo(0), true);
+    assert.equal(game.undo(), false);
+    assert.equal(game.jumpTo(3), true);
+    assert.equal(game.redo(), false);
+    assert.equal(game.jumpTo(4), false);
+    assert.equal(game.getCurrentNode().ply, 3);
+});
+
+test("別の手を指すと変化になり、やり直しは最後に通った変化をたどる", () => {
+    const { game, main, branch } = tree();
+    assert.deepEqual(line(main[0].children), ["3c3d", "8c8d"]);
+    // addVariation では現在の局面は動かない
+    assert.equal(game.getCurrentNode(), main[2]);
+
+    game.goTo(branch[1]);
+    game.jumpTo(0);
+    assert.equal(game.jumpTo(3), true);
+    assert.deepEqual(current(game), ["7g7f", "8c8d", "2g2f"]);
+    game.jumpTo(1);
+    game.redo();
+    assert.equal(game.getCurrentNode(), branch[0]);
+
+    // 同じ手を指せば既存の節点へ進む
+    game.jumpTo(1);
+    game.play(mv("3c3d"));
+    assert.equal(game.getCurrentNode(), main[1]);
+    assert.equal(main[0].children.length, 2);
+    assert.equal(branch[0].isMainLine(), false);
+});
+
+test("変化を本譜にすると、その手順が最初の子になる", () => {
+    const { game, main, branch } = tree();
+    game.promoteVariation(branch[1]);
+    assert.deepEqual(line(game.getMainLine()), ["7g7f", "8c8d", "2g2f"]);
+    assert.equal(branch[1].isMainLine(), true);
+    assert.equal(main[1].isMainLine(), false);
+    // 現在の局面はそのまま
+    assert.equal(game.getCurrentNode(), main[2]);
+});
+
+test("変化を消すと、その中にいたら親へ戻り、やり直しは残った手へ進む", () => {
+    const { game, main, branch } = tree();
+    game.goTo(branch[1]);
+    game.deleteBranch(branch[0]);
+    assert.equal(game.getCurrentNode(), main[0]);
+    assert.deepEqual(line(main[0].children), ["3c3d"]);
+    assert.equal(game.redo(), true);
+    assert.equal(game.getCurrentNode(), main[1]);
+    assert.throws(() => game.goTo(branch[1]), /does not belong to this game/);
+});
+
+test("本譜を消すと変化が本譜になり、消した手順の外にいれば局面は動かない", () => {
+    const { game, main, branch } = tree();
+    game.goTo(branch[1]);
+    game.deleteBranch(main[1]);
+    assert.equal(game.getCurrentNode(), branch[1]);
+    assert.deepEqual(line(game.getMainLine()), ["7g7f", "8c8d", "2g2f"]);
+    assert.throws(() => game.deleteBranch(game.getRoot()), /Cannot delete the root/);
+});
+
+test("消した変化の先に戻ってから指し直すと、新しい節点になる", () => {
+    const { game, branch } = tree();
+    game.goTo(branch[0]);
+    game.deleteBranch(branch[0]);
+    game.play(mv("8c8d"));
+    assert.notEqual(game.getCurrentNode(), branch[0]);
+    game.undo();
+    assert.equal(game.redo(), true);
+    assert.equal(Sfen.formatMove(game.getCurrentNode().move!), "8c8d");
+});
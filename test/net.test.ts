@@ -0,0 +1,215 @@
+// net.test.ts
+// localhost に ShogiServer を立て、NetClient を2つ（と観戦者）つないで対局する。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Csa } from "../docs/csa.js";
+import { Kif } from "../docs/kif.js";
+import { Sfen } from "../docs/sfen.js";
+import { NetClient, NetClientOptions } from "../docs/netclient.js";
+import { ShogiServer } from "../docs/server.js";
+
+type Opened = { client: NetClient; errors: string[] };
+
+// cond が成り立つまで待つ
+async function until(cond: () => boolean, what: string, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!cond()) {
+        if (Date.now() > deadline) throw new Error(`timed out waiting for ${what}`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+async function withServer(body: (open: (name: string, options?: Partial<NetClientOptions>) => Promise<Opened>) => Promise<void>): Promise<void> {
+    const server = new ShogiServer();
+    const port = await server.listen(0, "127.0.0.1");
+    const clients: NetClient[] = [];
+    const open = async (name: string, options: Partial<NetClientOptions> = {}): Promise<Opened> => {
+        const errors: string[] = [];
+        let joined = false;
+        const client = new NetClient({
+            url: `ws://127.0.0.1:${port}/ws`,
+            room: "test",
+            name,
+            reconnectDelayMs: 50,
+            onSync: () => (joined = true),
+            onError: (message) => errors.push(message),
+            ...options,
+        });
+        clients.push(client);
+        client.connect();
+        await until(() => joined, `${name} to join`);
+        return { client, errors };
+    };
+    try {
+        await body(open);
+    } finally {
+        for (const c of clients) c.close();
+        await server.close();
+    }
+}
+
+test("来た順に先手・後手・観戦の席になる", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a");
+        const { client: b } = await open("b");
+        const { client: c, errors } = await open("c");
+        assert.deepEqual([a.seat, b.seat, c.seat], ["SENTE", "GOTE", "SPECTATOR"]);
+        assert.equal(c.token, "");
+        await until(() => a.players.GOTE?.name === "b", "a to see b");
+        assert.deepEqual(c.players, { SENTE: { name: "a", connected: true }, GOTE: { name: "b", connected: true } });
+
+        // 手番でない側・観戦者の手は通らない
+        b.play(Sfen.parseMove("3c3d"));
+        c.play(Sfen.parseMove("7g7f"));
+        await until(() => errors.length === 1, "the spectator's error");
+        assert.match(errors[0], /^SERVER:/);
+        a.play(Sfen.parseMove("7g7f"));
+        await until(() => c.game.getCurrentNode().ply === 1, "the move to reach the spectator");
+        assert.equal(b.game.getCurrentNode().ply, 1);
+    }));
+
+test("指した後の時計がそろい、相手の時計が動き出す", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a", { timeControl: { mainMs: 60000 } });
+        assert.equal(a.game.getClock()!.isPaused(), true); // 相手が来るまでは止まっている
+        const { client: b } = await open("b");
+        await until(() => !a.game.getClock()!.isPaused(), "the clock to start");
+
+        a.play(Sfen.parseMove("7g7f"));
+        await until(() => a.game.getCurrentNode().ply === 1 && b.game.getCurrentNode().ply === 1, "the move");
+        for (const c of [a, b]) {
+            const clock = c.game.getClock()!;
+            assert.equal(clock.getRunning(), "GOTE");
+            assert.equal(clock.getTimeControl("SENTE").mainMs, 60000);
+        }
+        const sente = a.game.getClock()!.read("SENTE");
+        assert.deepEqual(b.game.getClock()!.read("SENTE"), sente);
+        assert.ok(sente.mainMs <= 60000 && sente.mainMs > 50000);
+        assert.equal(a.game.getCurrentNode().consumedMs, b.game.getCurrentNode().consumedMs);
+    }));
+
+test("切れても token で同じ席に戻り、局面と手順を受け取り直す", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a", { timeControl: { mainMs: 60000 } });
+        const { client: b } = await open("b");
+        a.play(Sfen.parseMove("7g7f"));
+        await until(() => b.game.getCurrentNode().ply === 1, "the first move");
+        const token = b.token;
+        b.close();
+        await until(() => a.players.GOTE?.connected === false, "a to see b leave");
+        assert.equal(a.game.getClock()!.isPaused(), true);
+
+        const { client: b2 } = await open("b", { token });
+        assert.equal(b2.seat, "GOTE");
+        assert.equal(b2.token, token);
+        assert.deepEqual(b2.game.getCurrentLine().map((m) => Sfen.formatMove(m)), ["7g7f"]);
+        assert.equal(b2.game.getClock()!.getRunning(), "GOTE");
+        await until(() => a.players.GOTE?.connected === true && !a.game.getClock()!.isPaused(), "a to see b come back");
+
+        b2.play(Sfen.parseMove("3c3d"));
+        await until(() => a.game.getCurrentNode().ply === 2, "the move after reconnecting");
+    }));
+
+test("投了すると両方に結果が届く", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a");
+        const { client: b } = await open("b");
+        b.resign();
+        await until(() => a.game.getResult().kind !== "ONGOING" && b.game.getResult().kind !== "ONGOING", "the result");
+        assert.deepEqual(a.game.getResult(), { kind: "RESIGN", winner: "SENTE" });
+        assert.deepEqual(b.game.getResult(), { kind: "RESIGN", winner: "SENTE" });
+    }));
+
+test("引き分けの申し出は断れば消え、受ければ合意の引き分けになる", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a");
+        const { client: b, errors } = await open("b");
+        a.offerDraw();
+        await until(() => b.drawOffer === "SENTE", "the offer");
+        b.answerDraw(false);
+        await until(() => a.drawOffer === null, "the decline");
+        assert.equal(a.game.getResult().kind, "ONGOING");
+
+        // 申し出ていない側からは受けられない
+        b.answerDraw(true);
+        await until(() => errors.length === 1, "the error");
+
+        b.offerDraw();
+        await until(() => a.drawOffer === "GOTE", "the second offer");
+        a.answerDraw(true);
+        await until(() => b.game.getResult().kind !== "ONGOING", "the draw");
+        assert.deepEqual(b.game.getResult(), { kind: "DRAW_AGREEMENT" });
+        // 棋譜には持将棋ではなく引き分けと書き、読み戻せる
+        const kif = Kif.exportKif(b.game);
+        assert.match(kif, /まで0手で引き分け/);
+        assert.doesNotMatch(kif, /持将棋/);
+        assert.deepEqual(Kif.parse(kif).game.getResult(), { kind: "DRAW_AGREEMENT" });
+        const csa = Csa.export(b.game);
+        assert.match(csa, /^%HIKIWAKE$/m);
+        assert.deepEqual(Csa.parse(csa).game.getResult(), { kind: "DRAW_AGREEMENT" });
+    }));
+
+test("別の token では席に戻れず、観戦になる", () =>
+    withServer(async (open) => {
+        await open("a");
+        const { client: b } = await open("b");
+        b.close();
+        const { client: c } = await open("c", { token: "0".repeat(32) });
+        assert.equal(c.seat, "SPECTATOR");
+        assert.equal(c.players.GOTE?.name, "b");
+    }));
+
+test("古い局面から送った手は弾かれ、局面は変わらない", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a");
+        const { client: b, errors } = await open("b");
+        a.play(Sfen.parseMove("7g7f"));
+        await until(() => b.game.getCurrentNode().ply === 1, "the first move");
+
+        // 手元だけ1手戻して、0手目の局面からの手として送る
+        b.game.undo();
+        b.play(Sfen.parseMove("3c3d"));
+        await until(() => errors.length === 1, "the error");
+        assert.match(errors[0], /^SERVER: stale move \(ply 0, now 1\)/);
+        assert.equal(a.game.getCurrentNode().ply, 1);
+
+        b.sync();
+        await until(() => b.game.getCurrentNode().ply === 1, "the resync");
+        b.play(Sfen.parseMove("3c3d"));
+        await until(() => a.game.getCurrentNode().ply === 2, "the move after resyncing");
+    }));
+
+test("終局と行き違った引き分けの返事はエラーにしない", () =>
+    withServer(async (open) => {
+        const { client: a } = await open("a");
+        const { client: b, errors } = await open("b");
+        a.offerDraw();
+        await until(() => b.drawOffer === "SENTE", "the offer");
+        a.resign();
+        await until(() => b.game.getResult().kind === "RESIGN", "the result");
+        assert.equal(b.drawOffer, null);
+
+        b.answerDraw(true);
+        // 同じ接続の後の送信への返事が来れば、answerDraw はもう処理されている
+        b.offerDraw();
+        await until(() => errors.length > 0, "the error for the offer");
+        assert.deepEqual(errors, ["SERVER: the game is over"]);
+        assert.deepEqual(a.game.getResult(), { kind: "RESIGN", winner: "GOTE" });
+    }));
+
+test("短すぎる持ち時間・秒読みや整数でない回数は持ち時間なしにする", () =>
+    withServer(async (open) => {
+        const controls = [
+            { mainMs: 0, byoyomiMs: 0.001 },
+            { mainMs: 500 },
+            { mainMs: 60000, byoyomiMs: 10000, byoyomiPeriods: 0.5 },
+            { mainMs: 60000, incrementMs: -1 },
+        ];
+        for (const [i, timeControl] of controls.entries()) {
+            const { client } = await open("a", { room: `bad${i}`, timeControl });
+            assert.equal(client.game.getClock(), undefined, JSON.stringify(timeControl));
+        }
+        const { client } = await open("a", { room: "ok", timeControl: { mainMs: 0, byoyomiMs: 1000, incrementMs: 0 } });
+        assert.equal(client.game.getClock()!.getTimeControl("SENTE").byoyomiMs, 1000);
+    }));
@@ -0,0 +1,26 @@
+// perft.test.ts
+// PERFT_SUITE を両方の生成器で流す。RULES は遅いので葉の少ない深さだけ。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PERFT_SUITE, Perft } from "../docs/perft.js";
+import { Sfen } from "../docs/sfen.js";
+
+// 平手の深さ5（約2千万）は node docs/perft.js で
+const FAST_MAX_NODES = 5000000;
+const RULES_MAX_NODES = 30000;
+
+test("FAST の葉の数が期待値と一致する", () => {
+    assert.deepEqual(Perft.runSuite(PERFT_SUITE, { generator: "FAST", maxNodes: FAST_MAX_NODES }), []);
+});
+
+test("RULES の葉の数が期待値と一致する", () => {
+    assert.deepEqual(Perft.runSuite(PERFT_SUITE, { generator: "RULES", maxNodes: RULES_MAX_NODES }), []);
+});
+
+// 手作りの局面は期待値が深さ1だけなので、その先は生成器どうしで突き合わせる
+for (const c of PERFT_SUITE.filter((c) => c.counts.length === 1)) {
+    test(`${c.name}: 深さ2の divide が RULES と FAST で一致する`, () => {
+        assert.deepEqual(Perft.compareGenerators(Sfen.parse(c.sfen).position, 2), []);
+    });
+}
@@ -0,0 +1,27 @@
+// review.test.ts
+// Review.analyze の手の分類と、詰みを逃したかどうか。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Game } from "../docs/main.js";
+import { Review } from "../docs/review.js";
+import { Sfen } from "../docs/sfen.js";
+
+test("詰ませた手は詰みを逃したことにならない", async () => {
+    const game = new Game(Sfen.parse("4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1").position);
+    game.play(Sfen.parseMove("G*5b"));
+    assert.equal(game.getResult().kind, "CHECKMATE");
+    const [m] = (await Review.analyze(game, { nodeLimit: 2000 })).moves;
+    assert.equal(m.missedMate, null);
+    assert.equal(m.label, "BEST");
+    assert.equal(m.loss, 0);
+});
+
+test("詰みがあるのに詰まない手は悪手で、手数を残す", async () => {
+    const game = new Game(Sfen.parse("4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1").position);
+    game.play(Sfen.parseMove("5i4h"));
+    const [m] = (await Review.analyze(game, { nodeLimit: 2000 })).moves;
+    assert.equal(m.label, "BLUNDER");
+    assert.equal(m.missedMate, 1);
+    assert.equal(m.best && Sfen.formatMove(m.best), "G*5b");
+});
@@ -0,0 +1,84 @@
+// sfen.test.ts
+// SFEN と USI 形式の指し手の読み書き、壊れた入力のエラー。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Handicap, InitialSetup, PieceType } from "../docs/main.js";
+import { STANDARD_SFEN, Sfen } from "../docs/sfen.js";
+
+test("平手の初期局面を読み書きできる", () => {
+    const { position, moveNumber } = Sfen.parse(STANDARD_SFEN);
+    assert.equal(moveNumber, 1);
+    assert.equal(position.turn, "SENTE");
+    assert.equal(Sfen.stringify(position), STANDARD_SFEN);
+    assert.equal(Sfen.stringify(InitialSetup.standard()), STANDARD_SFEN);
+});
+
+test("成駒・持ち駒・手番・手数が往復する", () => {
+    const sfens = [
+        "8l/1l+R2P3/p2pBG1pp/kps1p4/Nn1P2G2/P1P1P2PP/1PS6/1KSG3+r1/LN2+p3L w Sbgn3p 124",
+        "4k4/9/4P4/9/9/9/9/9/4K4 b G2r2b3g4s4n4l17p 1",
+        "ln1g1g1nl/1ks2r3/1pppp1bpp/p3spp2/9/P1P1SP1PP/1P1PP1P2/1BK1GR3/LNSG3NL b - 35",
+    ];
+    for (const sfen of sfens) {
+        const { position, moveNumber } = Sfen.parse(sfen);
+        assert.equal(Sfen.stringify(position, moveNumber), sfen);
+    }
+    const { position } = Sfen.parse(sfens[0]);
+    assert.equal(position.turn, "GOTE");
+    assert.equal(position.hand.get("SENTE", PieceType.GI), 1);
+    assert.equal(position.hand.get("GOTE", PieceType.FU), 3);
+    assert.equal(Sfen.pieceToString(position.board.get({ file: 7, rank: 2 })!), "+R");
+});
+
+test("持ち駒は 飛角金銀桂香歩・先手から の順に書く", () => {
+    const { position } = Sfen.parse("4k4/9/9/9/9/9/9/9/4K4 b pP2GRb 1");
+    assert.equal(Sfen.stringify(position), "4k4/9/9/9/9/9/9/9/4K4 b R2GPbp 1");
+});
+
+test("駒落ちの初期局面は後手番", () => {
+    assert.equal(Sfen.handicap(Handicap.KAKU), "lnsgkgsnl/1r7/ppppppppp/9/9/9/PPPPPPPPP/1B5R1/LNSGKGSNL w - 1");
+});
+
+test("USI の指し手を読み書きできる", () => {
+    for (const usi of ["7g7f", "8h2b+", "P*5e", "G*1a", "1i1h"]) {
+        assert.equal(Sfen.formatMove(Sfen.parseMove(usi)), usi);
+    }
+    assert.deepEqual(Sfen.parseMove("8h2b+"), { kind: "MOVE", from: { file: 8, rank: 8 }, to: { file: 2, rank: 2 }, promote: true });
+    assert.deepEqual(Sfen.parseMove("P*5e"), { kind: "DROP", pieceType: PieceType.FU, to: { file: 5, rank: 5 } });
+    assert.deepEqual(Sfen.parseSquare("9i"), { file: 9, rank: 9 });
+});
+
+test("壊れた SFEN は何が悪いかを言って弾く", () => {
+    const cases: Array<[string, RegExp]> = [
+        ["4k4/9/9/9/9/9/9/9/4K4 b", /expected 3 or 4 fields, got 2/],
+        ["4k4/9/9/9/9/9/9/4K4 b - 1", /expected 9 ranks, got 8/],
+        ["4k4/9/9/9/9/9/9/9/4K4 x - 1", /side to move must be "b" or "w"/],
+        ["4k4/9/9/9/9/9/9/9/4K4 b - 0", /invalid move number "0"/],
+        ["4k5/9/9/9/9/9/9/9/4K4 b - 1", /too many squares in rank 1/],
+        ["4k3/9/9/9/9/9/9/9/4K4 b - 1", /rank 1 has 8 squares, expected 9/],
+        ["4x4/9/9/9/9/9/9/9/4K4 b - 1", /unknown piece letter "x" in rank 1/],
+        ["4+k4/9/9/9/9/9/9/9/4K4 b - 1", /"k" cannot be promoted \(rank 1\)/],
+        ["4k3+/9/9/9/9/9/9/9/4K4 b - 1", /"\+" at end of rank 1/],
+        ["4k4/9/9/9/9/9/9/9/4K4 b K 1", /king cannot be in hand/],
+        ["4k4/9/9/9/9/9/9/9/4K4 b 0P 1", /invalid hand count "0P"/],
+        ["4k4/9/9/9/9/9/9/9/4K4 b 2P2P 1", /duplicated hand piece "P"/],
+        ["4k4/9/9/9/9/9/9/9/4K4 b 2P- 1", /malformed hand "2P-"/],
+    ];
+    for (const [sfen, message] of cases) {
+        assert.throws(() => Sfen.parse(sfen), message, sfen);
+    }
+});
+
+test("先手と後手の同じ駒はそれぞれに書ける", () => {
+    const { position } = Sfen.parse("4k4/9/9/9/9/9/9/9/4K4 b 2Pp 1");
+    assert.equal(position.hand.get("SENTE", PieceType.FU), 2);
+    assert.equal(position.hand.get("GOTE", PieceType.FU), 1);
+});
+
+test("壊れた指し手・マスは USI: で弾く", () => {
+    for (const usi of ["7g7", "7g7f++", "K*5e", "p*5e", "0a1a", "7j7f"]) {
+        assert.throws(() => Sfen.parseMove(usi), /^Error: USI: malformed move/, usi);
+    }
+    assert.throws(() => Sfen.parseSquare("5z"), /USI: malformed square "5z"/);
+});
@@ -0,0 +1,47 @@
+// tsume.test.ts
+// Tsume.solve の詰み手順・余詰・不詰・打ち歩詰め。玉方の持ち駒は既定どおり残りの駒すべて。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Rules } from "../docs/main.js";
+import { Sfen } from "../docs/sfen.js";
+import { Tsume, TsumeResult } from "../docs/tsume.js";
+
+const solve = (sfen: string): TsumeResult => Tsume.solve(Sfen.parse(sfen).position);
+const usi = (r: TsumeResult): string[] => (r.kind === "MATE" ? r.moves.map((m) => Sfen.formatMove(m)) : []);
+
+test("3手詰を最短の手順で返し、ほかに詰め方がなければ unique", () => {
+    // 1一玉・1三歩に飛銀: 飛車を打ってすぐは逃げられるので3手かかる
+    const r = solve("8k/9/8P/9/9/9/9/9/9 b RS 1");
+    assert.equal(r.kind, "MATE");
+    assert.deepEqual(usi(r), ["R*1b", "1a2a", "S*3b"]);
+    assert.equal(r.kind === "MATE" && r.unique, true);
+    assert.deepEqual(r.kind === "MATE" && r.alternatives, []);
+});
+
+test("最後の1手が2通りある3手詰は余詰として ply と手を返す", () => {
+    const r = solve("7k1/9/6P1P/9/9/9/9/9/9 b GS 1");
+    assert.equal(r.kind, "MATE");
+    assert.deepEqual(usi(r), ["G*3b", "2a1a", "S*1b"]);
+    assert.equal(r.kind === "MATE" && r.unique, false);
+    assert.deepEqual(r.kind === "MATE" && r.alternatives.map((a) => [a.ply, Sfen.formatMove(a.move)]), [[3, "S*2b"]]);
+});
+
+test("詰まない局面は NO_MATE", () => {
+    // 頭銀は玉に横へ逃げられる
+    assert.equal(solve("4k4/9/4P4/9/9/9/9/9/9 b S 1").kind, "NO_MATE");
+});
+
+test("打ち歩詰めにしかならない局面は詰みにしない", () => {
+    // 1二歩打は玉が取れず2一にも逃げられないが、歩を打って詰ませるのは反則
+    const pos = Sfen.parse("8k/9/6NG1/9/9/9/9/9/9 b P 1").position;
+    assert.equal(Rules.validateMove(pos, Sfen.parseMove("P*1b")), "UCHIFUZUME");
+    assert.equal(Tsume.solve(pos).kind, "NO_MATE");
+
+    // 同じ形で香なら1手詰
+    assert.deepEqual(usi(solve("8k/9/6NG1/9/9/9/9/9/9 b L 1")), ["L*1b"]);
+});
+
+test("ノード数の上限を超えたら UNKNOWN", () => {
+    assert.equal(Tsume.solve(Sfen.parse("7k1/9/6P1P/9/9/9/9/9/9 b RS 1").position, { nodeLimit: 100 }).kind, "UNKNOWN");
+});
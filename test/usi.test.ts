@@ -0,0 +1,105 @@
+// usi.test.ts
+// usi.js を子プロセスで起動し、標準入出力で USI のやりとりをする。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import { createInterface } from "node:readline";
+
+const USI_JS = fileURLToPath(new URL("../docs/usi.js", import.meta.url));
+
+// 詰みも不詰も読み切るまでに時間のかかる局面（stop で止める）
+const HARD_MATE = "9/9/9/9/4k4/9/9/9/4K4 b RBGS 1";
+
+class Engine {
+    private readonly lines: string[] = [];
+    private waiter: (() => void) | undefined;
+    readonly proc: ChildProcess;
+
+    constructor() {
+        this.proc = spawn(process.execPath, [USI_JS], { stdio: ["pipe", "pipe", "inherit"] });
+        createInterface({ input: this.proc.stdout! }).on("line", (line) => {
+            this.lines.push(line);
+            this.waiter?.();
+        });
+    }
+
+    send(...lines: string[]): void {
+        for (const line of lines) this.proc.stdin!.write(line + "\n");
+    }
+
+    // prefix で始まる行が来るまで待ってその行を返す（それまでの行は捨てる）
+    async expect(prefix: string, timeoutMs = 10000): Promise<string> {
+        const deadline = Date.now() + timeoutMs;
+        for (;;) {
+            const i = this.lines.findIndex((l) => l.startsWith(prefix));
+            if (i >= 0) return this.lines.splice(0, i + 1)[i];
+            const left = deadline - Date.now();
+            if (left <= 0) throw new Error(`timed out waiting for "${prefix}" (got ${JSON.stringify(this.lines)})`);
+            await new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, left);
+                this.waiter = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+            });
+        }
+    }
+
+    async quit(): Promise<void> {
+        if (this.proc.exitCode !== null) return;
+        const exited = new Promise((resolve) => this.proc.once("exit", resolve));
+        this.send("quit");
+        await exited;
+    }
+}
+
+async function withEngine(body: (e: Engine) => Promise<void>): Promise<void> {
+    const e = new Engine();
+    try {
+        e.send("usi");
+        await e.expect("usiok");
+        e.send("isready");
+        await e.expect("readyok");
+        await body(e);
+    } finally {
+        await e.quit();
+    }
+}
+
+test("go mate で詰み手順を返す", () =>
+    withEngine(async (e) => {
+        e.send("position sfen 4k4/9/4P4/9/9/9/9/9/4K4 b G 1", "go mate 5000");
+        assert.equal(await e.expect("checkmate"), "checkmate G*5b");
+    }));
+
+test("go mate で例外が出たら bestmove resign ではなく checkmate で返す", () =>
+    withEngine(async (e) => {
+        // 手番でない玉に王手がかかっていて、詰将棋として解けない
+        e.send("position sfen 4k4/4R4/9/9/9/9/9/9/4K4 b - 1", "go mate 5000");
+        assert.match(await e.expect("info string"), /OPPONENT_IN_CHECK/);
+        assert.equal(await e.expect("checkmate"), "checkmate nomate");
+        // そのあとも普通に動く
+        e.send("position startpos", "go depth 1");
+        assert.match(await e.expect("bestmove"), /^bestmove \d[a-i]\d[a-i]/);
+    }));
+
+test("go mate infinite は stop で止まる", () =>
+    withEngine(async (e) => {
+        e.send("setoption name MateNodeLimit value 100000000", `position sfen ${HARD_MATE}`, "go mate infinite");
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        const sent = Date.now();
+        e.send("stop");
+        assert.equal(await e.expect("checkmate", 5000), "checkmate timeout");
+        assert.ok(Date.now() - sent < 3000);
+    }));
+
+test("go mate の時間切れで checkmate timeout", () =>
+    withEngine(async (e) => {
+        e.send("setoption name MateNodeLimit value 100000000", `position sfen ${HARD_MATE}`, "go mate 300");
+        assert.equal(await e.expect("checkmate", 5000), "checkmate timeout");
+        // ワーカーは捨てずに続けて使える
+        e.send("position sfen 4k4/9/4P4/9/9/9/9/9/4K4 b G 1", "go mate 5000");
+        assert.equal(await e.expect("checkmate"), "checkmate G*5b");
+    }));
@@ -0,0 +1,96 @@
+// usiclient.test.ts
+// UsiClient を usistub.js（テスト用のエンジン）につないで動かす。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Game, InitialSetup } from "../docs/main.js";
+import { Sfen } from "../docs/sfen.js";
+import { UsiClient, UsiEngineError } from "../docs/usiclient.js";
+
+const STUB = fileURLToPath(new URL("./usistub.js", import.meta.url));
+
+async function withStub(args: string[], body: (c: UsiClient, sent: string[]) => Promise<void>): Promise<void> {
+    const sent: string[] = [];
+    const client = await UsiClient.start({
+        command: process.execPath,
+        args: [STUB, ...args],
+        options: { Depth: 3 },
+        onLine: (dir, line) => {
+            if (dir === "SEND") sent.push(line);
+        },
+    });
+    try {
+        await body(client, sent);
+    } finally {
+        await client.quit();
+    }
+}
+
+const rejectsWith = (failure: string) => (e: unknown) => e instanceof UsiEngineError && e.failure === failure;
+
+test("起動すると名前と option を読み、setoption を送る", () =>
+    withStub(["move", "7g7f"], async (c, sent) => {
+        assert.equal(c.name, "usistub");
+        assert.ok(c.engineOptions.Depth);
+        assert.ok(sent.includes("setoption name Depth value 3"));
+    }));
+
+test("playTurn で返した手を Game に指す", () =>
+    withStub(["move", "7g7f", "3c3d"], async (c, sent) => {
+        const game = new Game(InitialSetup.standard());
+        let info = 0;
+        const best = await c.go(game, { btime: 1000, wtime: 1000, onInfo: () => info++ });
+        assert.equal(best.kind, "MOVE");
+        assert.equal(info, 1);
+        assert.equal(sent.at(-1), "go btime 1000 wtime 1000");
+        game.play(Sfen.parseMove("7g7f"));
+        assert.deepEqual(await c.playTurn(game), { kind: "ONGOING" });
+        assert.equal(Sfen.formatMove(game.getCurrentNode().move!), "3c3d");
+        assert.equal(sent.at(-2), "position startpos moves 7g7f");
+    }));
+
+test("反則の手は指した側の反則負け", () =>
+    withStub(["move", "5a5b"], async (c) => {
+        const game = new Game(InitialSetup.standard());
+        assert.deepEqual(await c.playTurn(game), { kind: "ILLEGAL_MOVE", loser: "SENTE", reason: "NOT_OWN_PIECE" });
+    }));
+
+test("時間切れの go は stop を送り、遅れた bestmove を次の go に渡さない", () =>
+    withStub(["slow", "7g7f", "2g2f"], async (c, sent) => {
+        const game = new Game(InitialSetup.standard());
+        await assert.rejects(c.go(game, { timeoutMs: 50 }), rejectsWith("TIMEOUT"));
+        assert.equal(sent.at(-1), "stop");
+        const best = await c.go(game, { timeoutMs: 2000 });
+        assert.equal(best.kind === "MOVE" && Sfen.formatMove(best.move), "2g2f");
+    }));
+
+test("時間の指定のない go は1秒を過ぎても bestmove を待つ", () =>
+    withStub(["late", "7g7f"], async (c, sent) => {
+        const game = new Game(InitialSetup.standard());
+        const best = await c.go(game);
+        assert.equal(sent.at(-1), "go");
+        assert.equal(best.kind === "MOVE" && Sfen.formatMove(best.move), "7g7f");
+    }));
+
+test("stop にも答えないエンジンは止めて、次の go は CRASH", () =>
+    withStub(["deaf"], async (c) => {
+        const game = new Game(InitialSetup.standard());
+        assert.deepEqual(await c.playTurn(game, { timeoutMs: 50 }), { kind: "TIME_LOSS", loser: "SENTE" });
+        await assert.rejects(c.go(game), rejectsWith("CRASH"));
+    }));
+
+test("終了したエンジンは反則負けにする", () =>
+    withStub(["crash"], async (c) => {
+        const game = new Game(InitialSetup.standard());
+        assert.deepEqual(await c.playTurn(game, { timeoutMs: 2000 }), { kind: "ILLEGAL_MOVE", loser: "SENTE" });
+        await assert.rejects(c.go(game), rejectsWith("CRASH"));
+    }));
+
+test("入力を閉じたエンジンへの書き込み（EPIPE）で止まらない", () =>
+    withStub(["close"], async (c) => {
+        const game = new Game(InitialSetup.standard());
+        // go に答えないまま時間切れ。stop を書いたところで EPIPE
+        assert.deepEqual(await c.playTurn(game, { timeoutMs: 100 }), { kind: "TIME_LOSS", loser: "SENTE" });
+        await assert.rejects(c.go(game), rejectsWith("CRASH"));
+    }));
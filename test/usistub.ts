@@ -0,0 +1,58 @@
+// usistub.ts
+// UsiClient のテスト用の USI エンジン。`node usistub.js <動き方> [指し手...]` で、go には指し手を順に返す。
+//   move  すぐに bestmove
+//   slow  300ms 後に bestmove（stop が来ればすぐ）
+//   late  1500ms 後に bestmove（stop が来てもそのまま）
+//   deaf  go にも stop にも答えない
+//   crash position を受けたら終了する
+//   close position を受けたら標準入力を閉じて黙る（そのあとの書き込みは EPIPE）
+
+import { createInterface } from "node:readline";
+
+const [mode = "move", ...moves] = process.argv.slice(2);
+let next = 0;
+let pending: ReturnType<typeof setTimeout> | undefined;
+
+const write = (line: string) => process.stdout.write(line + "\n");
+
+function bestmove(): void {
+    pending = undefined;
+    const mv = moves[next++ % Math.max(1, moves.length)] ?? "resign";
+    write(`info depth 1 score cp ${next} pv ${mv}`);
+    write(`bestmove ${mv}`);
+}
+
+createInterface({ input: process.stdin }).on("line", (raw) => {
+    const [cmd] = raw.trim().split(/\s+/);
+    switch (cmd) {
+        case "usi":
+            write("id name usistub");
+            write("id author test");
+            write("option name Depth type spin default 1 min 1 max 10");
+            write("usiok");
+            return;
+        case "isready":
+            write("readyok");
+            return;
+        case "position":
+            if (mode === "crash") process.exit(1);
+            if (mode === "close") {
+                process.stdin.destroy();
+                setInterval(() => { }, 1000);
+            }
+            return;
+        case "go":
+            if (mode === "move") bestmove();
+            else if (mode === "slow") pending = setTimeout(bestmove, 300);
+            else if (mode === "late") pending = setTimeout(bestmove, 1500);
+            return;
+        case "stop":
+            if (mode === "slow" && pending !== undefined) {
+                clearTimeout(pending);
+                bestmove();
+            }
+            return;
+        case "quit":
+            process.exit(0);
+    }
+});
@@ -0,0 +1,72 @@
+// validate.test.ts
+// Rules.validatePosition が拾う局面の不備。
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { InitialSetup, Piece, PieceType, Position, Rules } from "../docs/main.js";
+import { Sfen } from "../docs/sfen.js";
+
+const parse = (sfen: string): Position => Sfen.parse(sfen).position;
+const validate = (sfen: string, tsume = false) => Rules.validatePosition(parse(sfen), { tsume });
+
+test("玉が1枚ずつで王手も二歩もなければ問題なし", () => {
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/4K4 b - 1"), []);
+    assert.deepEqual(Rules.validatePosition(InitialSetup.standard()), []);
+});
+
+test("同じ筋の歩は二歩、と金は数えない", () => {
+    assert.deepEqual(validate("4k4/9/9/9/9/9/2P6/2P6/4K4 b - 1"), [{ kind: "NIFU", owner: "SENTE", file: 7 }]);
+    assert.deepEqual(validate("4k4/8p/8p/9/9/9/9/9/4K4 b - 1"), [{ kind: "NIFU", owner: "GOTE", file: 1 }]);
+    assert.deepEqual(validate("4k4/9/9/9/9/9/2+P6/2P6/4K4 b - 1"), []);
+    // 先手と後手の歩が同じ筋にあるのは二歩ではない
+    assert.deepEqual(validate("4k4/2p6/9/9/9/9/2P6/9/4K4 b - 1"), []);
+});
+
+test("行き所のない歩・香・桂", () => {
+    assert.deepEqual(validate("P3k4/9/9/9/9/9/9/9/4K4 b - 1"), [{ kind: "DEAD_PIECE", square: { file: 9, rank: 1 } }]);
+    assert.deepEqual(validate("4k4/N8/9/9/9/9/9/9/4K4 b - 1"), [{ kind: "DEAD_PIECE", square: { file: 9, rank: 2 } }]);
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/l3K4 b - 1"), [{ kind: "DEAD_PIECE", square: { file: 9, rank: 9 } }]);
+    // 成っていれば動ける。桂は3段目なら動ける
+    assert.deepEqual(validate("+P3k4/9/N8/9/9/9/9/9/4K4 b - 1"), []);
+});
+
+test("駒数は盤上・持ち駒・成駒を合わせて数える", () => {
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/4K4 b 18P 1"), []);
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/4K4 b 18Pp 1"), [{ kind: "TOO_MANY_PIECES", pieceType: PieceType.FU, count: 19, max: 18 }]);
+    assert.deepEqual(validate("4k4/9/9/4+B4/9/+B8/9/9/4K4 b B 1"), [{ kind: "TOO_MANY_PIECES", pieceType: PieceType.KA, count: 3, max: 2 }]);
+});
+
+test("手番でない側の玉に王手がかかっている", () => {
+    assert.deepEqual(validate("4k4/9/9/9/4R4/9/9/9/4K4 b - 1"), [{ kind: "OPPONENT_IN_CHECK" }]);
+    // 手番の側が王手されているのはふつうの局面
+    assert.deepEqual(validate("4k4/9/9/9/4R4/9/9/9/4K4 w - 1"), []);
+});
+
+test("玉がない・2枚ある・持ち駒にある", () => {
+    assert.deepEqual(validate("9/9/9/9/9/9/9/9/4K4 b - 1"), [{ kind: "NO_KING", owner: "GOTE" }]);
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/3KK4 b - 1"), [
+        { kind: "DUPLICATE_KING", owner: "SENTE" },
+        { kind: "TOO_MANY_PIECES", pieceType: PieceType.OU, count: 3, max: 2 },
+    ]);
+
+    // 持ち駒の玉は SFEN を読む段階でも Hand に足す段階でも弾かれる
+    assert.throws(() => parse("9/9/9/9/9/9/9/9/4K4 b k 1"), /king cannot be in hand/);
+    assert.throws(() => parse("9/9/9/9/9/9/9/9/4K4 b - 1").hand.add("GOTE", PieceType.OU), /OU cannot be in hand/);
+});
+
+test("詰将棋では手番側（攻め方）の玉だけなくてよい", () => {
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/9 b G 1", true), []);
+    assert.deepEqual(validate("4k4/9/9/9/9/9/9/9/9 b G 1"), [{ kind: "NO_KING", owner: "SENTE" }]);
+    assert.deepEqual(validate("9/9/9/9/9/9/9/9/4K4 b G 1", true), [{ kind: "NO_KING", owner: "GOTE" }]);
+});
+
+test("成れない金・玉が成っている", () => {
+    const pos = parse("4k4/9/9/9/9/9/9/9/4K4 b - 1");
+    pos.board.set({ file: 5, rank: 5 }, new Piece("SENTE", PieceType.KI, true));
+    pos.board.set({ file: 5, rank: 1 }, new Piece("GOTE", PieceType.OU, true));
+    const problems = Rules.validatePosition(pos);
+    assert.equal(problems.length, 2);
+    for (const square of [{ file: 5, rank: 5 }, { file: 5, rank: 1 }]) {
+        assert.ok(problems.some((p) => p.kind === "INVALID_PROMOTION" && p.square.file === square.file && p.square.rank === square.rank));
+    }
+});